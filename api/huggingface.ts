@@ -8,18 +8,25 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { model, messages, apiKey, parameters } = req.body;
+  const { model, messages, apiKey, parameters, stream } = req.body;
 
   if (!model || !messages || !apiKey) {
     return res.status(400).json({ error: 'Missing required fields' });
   }
 
+  // Stop the upstream request if the browser disconnects (e.g. "Stop generating")
+  const upstreamController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstreamController.abort();
+  });
+
   try {
     // Use HuggingFace's OpenAI-compatible endpoint
     const response = await fetch(
       'https://router.huggingface.co/v1/chat/completions',
       {
         method: 'POST',
+        signal: upstreamController.signal,
         headers: {
           'Authorization': `Bearer ${apiKey}`,
           'Content-Type': 'application/json',
@@ -27,8 +34,15 @@ export default async function handler(
         body: JSON.stringify({
           model: model,
           messages: messages, // Already in OpenAI format
-          max_tokens: parameters?.max_new_tokens || 300,
-          temperature: parameters?.temperature || 0.9,
+          // Parameters arrive already in OpenAI format; only fill in what the client left unset
+          max_tokens: parameters?.max_tokens ?? 300,
+          temperature: parameters?.temperature ?? 0.9,
+          top_p: parameters?.top_p,
+          stop: parameters?.stop,
+          presence_penalty: parameters?.presence_penalty,
+          frequency_penalty: parameters?.frequency_penalty,
+          seed: parameters?.seed,
+          stream: !!stream,
         }),
       }
     );
@@ -36,20 +50,50 @@ export default async function handler(
     if (!response.ok) {
       const error = await response.text();
       console.error('HF API Error:', error);
+      // Pass rate-limit hints through so the client can honour them when retrying
+      const retryAfter = response.headers.get('retry-after');
+      if (retryAfter) {
+        res.setHeader('Retry-After', retryAfter);
+      }
       return res.status(response.status).json({ error });
     }
 
+    if (stream) {
+      // Relay the upstream SSE stream to the browser chunk by chunk
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+
+      if (!response.body) {
+        return res.end();
+      }
+
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(Buffer.from(value));
+      }
+      return res.end();
+    }
+
     const result = await response.json();
 
     // Extract text from OpenAI-compatible response
     const generatedText = result.choices?.[0]?.message?.content || '';
 
     return res.status(200).json({
-      generated_text: generatedText
+      generated_text: generatedText,
+      usage: result.usage,
     });
 
   } catch (error) {
     console.error('HF API Error:', error);
+    if (res.headersSent) {
+      // A stream was already in progress; the client sees a truncated reply
+      return res.end();
+    }
     return res.status(500).json({
       error: 'Failed to call HuggingFace API',
       details: error instanceof Error ? error.message : 'Unknown error'
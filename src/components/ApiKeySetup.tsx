@@ -1,9 +1,69 @@
 import { useState } from "react";
+import { CheckCircle2, ChevronDown, Loader2, PlugZap, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card } from "@/components/ui/card";
-import { AgentConfig, ApiProvider, PROVIDER_MODELS, PROVIDER_LABELS, ModelType } from "@/types/agent";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import ModelPicker from "@/components/ModelPicker";
+import { testConnection, ConnectionTestResult, CONNECTION_STATUS_LABELS } from "@/lib/apiClients";
+import {
+  AgentConfig,
+  ApiProvider,
+  PROVIDER_MODELS,
+  PROVIDER_LABELS,
+  PROVIDER_UNSUPPORTED_SETTINGS,
+  KEYLESS_PROVIDERS,
+  DEFAULT_GENERATION_SETTINGS,
+  GenerationSettings,
+  GenerationSetting,
+  DEFAULT_GROUP_WINDOW,
+  DEFAULT_MEMORY_POLICY,
+  MEMORY_VISIBILITY_LABELS,
+  MemoryVisibility,
+} from "@/types/agent";
+
+type NumericGenerationSetting = Exclude<GenerationSetting, 'stopSequences'>;
+
+const NUMERIC_GENERATION_FIELDS: Array<{
+  key: NumericGenerationSetting;
+  label: string;
+  min?: number;
+  max?: number;
+  step: number;
+  integer?: boolean;
+}> = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1 },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'maxOutputTokens', label: 'Max Output Tokens', min: 1, step: 1, integer: true },
+  { key: 'presencePenalty', label: 'Presence Penalty', min: -2, max: 2, step: 0.1 },
+  { key: 'frequencyPenalty', label: 'Frequency Penalty', min: -2, max: 2, step: 0.1 },
+  { key: 'seed', label: 'Seed', step: 1, integer: true },
+];
+
+const parseOptionalNumber = (value: string, integer?: boolean): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const formatHeaders = (headers?: Record<string, string>): string =>
+  Object.entries(headers || {}).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+/**
+ * Parse "Name: value" lines, skipping blank or malformed ones
+ */
+const parseHeaders = (text: string): Record<string, string> | undefined => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+    const name = line.slice(0, separator).trim();
+    if (name) headers[name] = line.slice(separator + 1).trim();
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
 
 interface ApiKeySetupProps {
   agent: AgentConfig;
@@ -12,6 +72,32 @@ interface ApiKeySetupProps {
 
 const ApiKeySetup = ({ agent, onChange }: ApiKeySetupProps) => {
   const [showKey, setShowKey] = useState(false);
+  const [showGeneration, setShowGeneration] = useState(false);
+  // Raw text so partially typed header lines aren't dropped while editing
+  const [headersText, setHeadersText] = useState(() => formatHeaders(agent.customHeaders));
+  const isCustomEndpoint = agent.provider === 'openai-compatible';
+  const isKeyless = KEYLESS_PROVIDERS.includes(agent.provider);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<ConnectionTestResult | null>(null);
+  const generation = agent.generation || {};
+  const unsupported = PROVIDER_UNSUPPORTED_SETTINGS[agent.provider];
+  const memoryPolicy = agent.memoryPolicy || DEFAULT_MEMORY_POLICY;
+
+  const updateGeneration = (patch: Partial<GenerationSettings>) => {
+    onChange({ ...agent, generation: { ...generation, ...patch } });
+  };
+
+  const handleTestConnection = async () => {
+    setTesting(true);
+    setTestResult(null);
+    try {
+      setTestResult(await testConnection(agent));
+    } catch (error) {
+      setTestResult({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setTesting(false);
+    }
+  };
 
   return (
     <Card className="p-4 space-y-4 border-2" style={{ borderColor: `hsl(var(--${agent.color}))` }}>
@@ -47,7 +133,7 @@ const ApiKeySetup = ({ agent, onChange }: ApiKeySetupProps) => {
           value={agent.provider}
           onValueChange={(value) => {
             const newProvider = value as ApiProvider;
-            const firstModel = PROVIDER_MODELS[newProvider][0];
+            const firstModel = PROVIDER_MODELS[newProvider][0] ?? '';
             onChange({ 
               ...agent, 
               provider: newProvider,
@@ -70,22 +156,14 @@ const ApiKeySetup = ({ agent, onChange }: ApiKeySetupProps) => {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor={`${agent.id}-model`}>Model</Label>
-        <Select
-          value={agent.model}
-          onValueChange={(value) => onChange({ ...agent, model: value as ModelType })}
-        >
-          <SelectTrigger id={`${agent.id}-model`}>
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            {PROVIDER_MODELS[agent.provider].map((model) => (
-              <SelectItem key={model} value={model}>
-                {model}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <Label htmlFor={`${agent.id}-model`}>{isCustomEndpoint ? "Model ID" : "Model"}</Label>
+        {/* Remount on provider change so the picker starts from that provider's list */}
+        <ModelPicker
+          key={agent.provider}
+          id={`${agent.id}-model`}
+          agent={agent}
+          onChange={(model) => onChange({ ...agent, model })}
+        />
       </div>
 
       <div className="space-y-2">
@@ -96,7 +174,11 @@ const ApiKeySetup = ({ agent, onChange }: ApiKeySetupProps) => {
             type={showKey ? "text" : "password"}
             value={agent.apiKey}
             onChange={(e) => onChange({ ...agent, apiKey: e.target.value })}
-            placeholder={`Enter ${PROVIDER_LABELS[agent.provider]} API key${agent.provider === 'ollama' ? ' (not required)' : ''}`}
+            placeholder={
+              isCustomEndpoint
+                ? "API key (optional)"
+                : `Enter ${PROVIDER_LABELS[agent.provider]} API key${isKeyless ? ' (not required)' : ''}`
+            }
             disabled={agent.provider === 'ollama'}
           />
           <button
@@ -123,6 +205,171 @@ const ApiKeySetup = ({ agent, onChange }: ApiKeySetupProps) => {
         </div>
       )}
 
+      {isCustomEndpoint && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor={`${agent.id}-base-url`}>Base URL</Label>
+            <Input
+              id={`${agent.id}-base-url`}
+              type="text"
+              value={agent.baseUrl || ''}
+              onChange={(e) => onChange({ ...agent, baseUrl: e.target.value })}
+              placeholder="http://localhost:1234/v1"
+            />
+            <p className="text-xs text-muted-foreground">
+              Any server exposing an OpenAI-style /chat/completions endpoint (LM Studio, vLLM, OpenRouter, Groq, Azure…).
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${agent.id}-headers`}>Custom Headers (one "Name: value" per line)</Label>
+            <textarea
+              id={`${agent.id}-headers`}
+              value={headersText}
+              onChange={(e) => {
+                setHeadersText(e.target.value);
+                onChange({ ...agent, customHeaders: parseHeaders(e.target.value) });
+              }}
+              className="w-full min-h-[60px] p-2 rounded-md border border-input bg-background text-sm font-mono"
+              placeholder="HTTP-Referer: https://example.com"
+            />
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleTestConnection}
+          disabled={testing}
+          className="w-full"
+        >
+          {testing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <PlugZap className="h-4 w-4 mr-2" />}
+          Test connection
+        </Button>
+        {testResult && (
+          <div
+            className={`flex items-start gap-2 text-xs ${
+              testResult.status === 'ok' ? "text-green-600 dark:text-green-400" : "text-destructive"
+            }`}
+          >
+            {testResult.status === 'ok'
+              ? <CheckCircle2 className="h-4 w-4 shrink-0" />
+              : <XCircle className="h-4 w-4 shrink-0" />}
+            <span className="break-words">
+              <span className="font-medium">{CONNECTION_STATUS_LABELS[testResult.status]}</span>
+              {testResult.message !== CONNECTION_STATUS_LABELS[testResult.status] && `: ${testResult.message}`}
+            </span>
+          </div>
+        )}
+      </div>
+
+      <Collapsible open={showGeneration} onOpenChange={setShowGeneration} className="space-y-2">
+        <CollapsibleTrigger className="flex w-full items-center justify-between text-sm font-medium">
+          Generation Settings
+          <ChevronDown className={`h-4 w-4 transition-transform ${showGeneration ? "rotate-180" : ""}`} />
+        </CollapsibleTrigger>
+        <CollapsibleContent className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            {NUMERIC_GENERATION_FIELDS.map(({ key, label, min, max, step, integer }) => {
+              const isUnsupported = unsupported.includes(key);
+              const defaultValue = DEFAULT_GENERATION_SETTINGS[key];
+              return (
+                <div key={key} className="space-y-1">
+                  <Label htmlFor={`${agent.id}-${key}`} className="text-xs">{label}</Label>
+                  <Input
+                    id={`${agent.id}-${key}`}
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={step}
+                    value={generation[key] ?? ''}
+                    onChange={(e) => updateGeneration({ [key]: parseOptionalNumber(e.target.value, integer) })}
+                    placeholder={isUnsupported ? 'Not supported' : (defaultValue !== undefined ? String(defaultValue) : 'Default')}
+                    disabled={isUnsupported}
+                    title={isUnsupported ? `Not supported by ${PROVIDER_LABELS[agent.provider]}` : undefined}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`${agent.id}-stop`} className="text-xs">Stop Sequences (one per line)</Label>
+            <textarea
+              id={`${agent.id}-stop`}
+              value={(generation.stopSequences || []).join('\n')}
+              onChange={(e) => updateGeneration({ stopSequences: e.target.value ? e.target.value.split('\n') : undefined })}
+              className="w-full min-h-[60px] p-2 rounded-md border border-input bg-background text-sm"
+              placeholder="None"
+            />
+          </div>
+          {agent.provider === 'anthropic' && (
+            <p className="text-xs text-muted-foreground">Anthropic caps temperature at 1.0.</p>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${agent.id}-budget`}>Budget Limit (USD)</Label>
+        <Input
+          id={`${agent.id}-budget`}
+          type="number"
+          min={0}
+          step={0.01}
+          value={agent.budgetLimit ?? ''}
+          onChange={(e) => onChange({ ...agent, budgetLimit: parseOptionalNumber(e.target.value) })}
+          placeholder="No limit"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${agent.id}-memory`}>Memory</Label>
+        <div className="flex gap-2">
+          <Select
+            value={memoryPolicy.visibility}
+            onValueChange={(value: MemoryVisibility) =>
+              onChange({
+                ...agent,
+                memoryPolicy: value === 'shared' ? undefined : { ...memoryPolicy, visibility: value },
+              })
+            }
+          >
+            <SelectTrigger id={`${agent.id}-memory`} className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MEMORY_VISIBILITY_LABELS) as MemoryVisibility[]).map((visibility) => (
+                <SelectItem key={visibility} value={visibility}>
+                  {MEMORY_VISIBILITY_LABELS[visibility]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {memoryPolicy.visibility === 'windowed' && (
+            <Input
+              type="number"
+              min={1}
+              step={1}
+              value={memoryPolicy.groupWindow ?? ''}
+              onChange={(e) => {
+                const groupWindow = parseOptionalNumber(e.target.value, true);
+                onChange({
+                  ...agent,
+                  memoryPolicy: { ...memoryPolicy, groupWindow: groupWindow && groupWindow > 0 ? groupWindow : undefined },
+                });
+              }}
+              placeholder={String(DEFAULT_GROUP_WINDOW)}
+              className="w-24"
+              title="Group messages to remember"
+            />
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Whether what is said in private chats and the group chat carries over between them.
+        </p>
+      </div>
+
       <div className="space-y-2">
         <Label htmlFor={`${agent.id}-personality`}>Personality Prompt</Label>
         <textarea
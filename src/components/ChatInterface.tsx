@@ -1,71 +1,184 @@
 import { useState, useRef, useEffect, useMemo } from "react";
-import { Send, Settings, Play, Square, Bug } from "lucide-react";
+import { Send, Settings, Play, Square, Bug, CircleStop, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import MessageBubble from "./MessageBubble";
 import RecipientSelector from "./RecipientSelector";
+import MentionTextarea from "./MentionTextarea";
 import SettingsModal from "./SettingsModal";
 import DebugPanel from "./DebugPanel";
+import SpendingSummary from "./SpendingSummary";
+import TurnStrategyPicker from "./TurnStrategyPicker";
+import StopConditionsPicker from "./StopConditionsPicker";
 import { useToast } from "@/hooks/use-toast";
 import { AgentConfig, Message } from "@/types/agent";
-import { callAgent, ApiError } from "@/lib/apiClients";
-import { ConversationStateManager, ConversationMode } from "@/lib/conversationStateManager";
+import { ChatSession, MessageFocusRequest, StopConditions, TurnStrategySettings } from "@/types/session";
+import { callAgent, ApiError, isAbortError } from "@/lib/apiClients";
+import { ConversationStateManager, ConversationMode, ConversationSnapshot } from "@/lib/conversationStateManager";
+import {
+  DEFAULT_SESSION_ID,
+  getConversationStore,
+  loadValidatedConversations,
+  migrateLegacyConversations,
+} from "@/lib/conversationStore";
+import { savePersistedAgents } from "@/lib/persistedState";
 import { debugEvents } from "@/lib/debugEventEmitter";
+import { SpendingTracker, loadSessionBudget, loadSpending, saveSpending } from "@/lib/spendingTracker";
+import { buildAgentContext } from "@/lib/contextBuilder";
+import { TranscriptFormat, buildTranscript, downloadTranscript } from "@/lib/transcriptExport";
+import { DEFAULT_TURN_STRATEGY, TURN_STRATEGIES, TurnPick } from "@/lib/turnStrategies";
+import { askModerator } from "@/lib/moderator";
+import { parseMentions } from "@/lib/mentions";
+import { getWhisperInstructions, isAgentWhisper, parseWhisperDirectives, stripWhisperLines } from "@/lib/whispers";
+import {
+  AutoRunStats,
+  STOP_CONDITION_LABELS,
+  StopTrigger,
+  checkReply,
+  checkRunLimits,
+  getEndSignalInstructions,
+  parseEndSignal,
+} from "@/lib/stopConditions";
 import { OrchestratorDecisionEvent, SystemEventEvent } from "@/types/debug";
 
-const ChatInterface = () => {
+interface StreamingReply {
+  mode: ConversationMode;
+  content: string;
+}
+
+/** An agent reply that failed; shown inline with a retry action until it succeeds or is dismissed */
+interface FailedReply {
+  id: string;
+  agentId: string;
+  mode: ConversationMode;
+  error: string;
+  timestamp: number;
+  /** User message the failed reply was answering in parallel with other agents */
+  inReplyTo?: string;
+}
+
+const describeAgentError = (error: unknown) =>
+  error instanceof ApiError
+    ? error.message
+    : "Failed to get response. Please check your API key and try again.";
+
+interface ChatInterfaceProps {
+  session: ChatSession;
+  /** Save changes to the session's roster, counters or activity time */
+  onSessionUpdate: (changes: Partial<ChatSession>) => void;
+  /** Continue the conversation from a message in a new branch session */
+  onBranch: (snapshot: ConversationSnapshot) => void;
+  /** Message to scroll to and highlight once its conversation is loaded */
+  focusRequest?: MessageFocusRequest | null;
+}
+
+const ChatInterface = ({ session, onSessionUpdate, onBranch, focusRequest }: ChatInterfaceProps) => {
   const [input, setInput] = useState("");
   const [recipient, setRecipient] = useState<string>("everyone");
   const [isLoading, setIsLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
-  const [agents, setAgents] = useState<AgentConfig[]>([]);
-  const [conversationManager] = useState(() => new ConversationStateManager());
+  const [agents, setAgents] = useState<AgentConfig[]>(session.agents);
+  const [conversationManager] = useState(() => {
+    const manager = new ConversationStateManager();
+    session.agents.forEach((agent) => manager.setMemoryPolicy(agent.id, agent.memoryPolicy));
+    return manager;
+  });
+  const [conversationStore] = useState(() => getConversationStore(session.id));
+  const [spendingTracker] = useState(() => new SpendingTracker());
+  const [spendingVersion, setSpendingVersion] = useState(0);
+  const [sessionBudget, setSessionBudget] = useState<number | null>(() => loadSessionBudget(session.id));
   const [conversationMode, setConversationMode] = useState<ConversationMode>('group');
   const [messageVersion, setMessageVersion] = useState(0);
   const [autoConversationActive, setAutoConversationActive] = useState(false);
-  const [autoRoundLimit, setAutoRoundLimit] = useState<number | null>(null);
-  const [autoRoundCount, setAutoRoundCount] = useState(0);
+  const [autoRoundLimit, setAutoRoundLimit] = useState<number | null>(session.autoRoundLimit);
+  const [autoRoundCount, setAutoRoundCount] = useState(session.autoRoundCount);
+  const [turnStrategy, setTurnStrategy] = useState<TurnStrategySettings>(session.turnStrategy ?? DEFAULT_TURN_STRATEGY);
+  const [agentWhispers, setAgentWhispers] = useState(session.agentWhispers ?? false);
+  const [observeWhispers, setObserveWhispers] = useState(session.observeWhispers ?? false);
+  const [stopConditions, setStopConditions] = useState<StopConditions>(session.stopConditions ?? {});
+  // Partial replies keyed by agent id, rendered until the final message is committed
+  const [streamingReplies, setStreamingReplies] = useState<Record<string, StreamingReply>>({});
+  const [failedReplies, setFailedReplies] = useState<FailedReply[]>([]);
+  // Agent message being regenerated in place; its partial reply replaces the bubble's content
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const handledFocusRef = useRef<MessageFocusRequest | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
   const autoConversationActiveRef = useRef(false);
   const autoTurnTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const autoTurnInProgressRef = useRef(false);
-  const agentsRef = useRef<AgentConfig[]>([]);
+  const agentsRef = useRef<AgentConfig[]>(session.agents);
   const conversationModeRef = useRef<ConversationMode>('group');
   const isLoadingRef = useRef(false);
   const recipientRef = useRef<string>('everyone');
-  const autoRoundLimitRef = useRef<number | null>(null);
-  const autoRoundCountRef = useRef(0);
+  const autoRoundLimitRef = useRef<number | null>(session.autoRoundLimit);
+  const autoRoundCountRef = useRef(session.autoRoundCount);
+  const turnStrategyRef = useRef<TurnStrategySettings>(session.turnStrategy ?? DEFAULT_TURN_STRATEGY);
+  const agentWhispersRef = useRef(session.agentWhispers ?? false);
+  const stopConditionsRef = useRef<StopConditions>(session.stopConditions ?? {});
+  // Time, tokens and cost used by the running auto conversation
+  const autoRunRef = useRef<AutoRunStats | null>(null);
+  // Shared by every provider call of the current send/auto turn so one abort cancels them all
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    // Load agents from localStorage
-    const storedAgents = localStorage.getItem("coffeehouse-agents");
-    if (storedAgents) {
-      setAgents(JSON.parse(storedAgents));
-    }
-
-    // Load conversation states from localStorage
-    const storedConversations = localStorage.getItem("coffeehouse-conversations");
-    const storedMode = localStorage.getItem("coffeehouse-conversation-mode");
-    if (storedConversations) {
+    // Load this session's conversations from IndexedDB; the default session adopts any older localStorage copy
+    const loadConversations = async () => {
       try {
-        const conversations = JSON.parse(storedConversations);
-        conversationManager.importStates(conversations, storedMode || 'group');
-        const mode = storedMode || 'group';
+        if (session.id === DEFAULT_SESSION_ID) {
+          await migrateLegacyConversations(conversationStore);
+        }
+        const { conversations, contextSummaries } = await loadValidatedConversations(conversationStore);
+        const mode = (await conversationStore.getMeta<ConversationMode>('currentMode')) || 'group';
+        // Keep an empty private chat selected across reloads
+        conversations[mode] ||= [];
+        conversationManager.importStates(conversations, mode);
+        conversationManager.importContextSummaries(contextSummaries);
         setConversationMode(mode);
         setRecipient(mode === 'group' ? 'everyone' : mode);
+        setMessageVersion((prev) => prev + 1);
       } catch (e) {
         console.error("Failed to load conversation states:", e);
       }
+    };
+    loadConversations();
+
+    // Load this session's spending totals from localStorage
+    try {
+      const storedSpending = loadSpending(session.id);
+      if (storedSpending) {
+        spendingTracker.importState(storedSpending);
+        setSpendingVersion((prev) => prev + 1);
+      }
+    } catch (e) {
+      console.error("Failed to load spending totals:", e);
     }
-  }, [conversationManager]);
+  }, [conversationManager, conversationStore, spendingTracker, session.id]);
 
   useEffect(() => {
     agentsRef.current = agents;
   }, [agents]);
 
+  // Keep memory policies in step with agent settings; summaries they invalidated are dropped from storage too
+  useEffect(() => {
+    const changed = agents.filter((agent) => conversationManager.setMemoryPolicy(agent.id, agent.memoryPolicy));
+    if (changed.length > 0) {
+      conversationStore
+        .setMeta('contextSummaries', conversationManager.exportContextSummaries())
+        .catch((e) => console.error("Failed to save conversation:", e));
+    }
+  }, [agents, conversationManager, conversationStore]);
+
   useEffect(() => {
     conversationModeRef.current = conversationMode;
   }, [conversationMode]);
@@ -102,17 +215,73 @@ const ChatInterface = () => {
     () => conversationManager.getCurrentMessages(),
     [conversationManager, conversationMode, messageVersion]
   );
+  // Failed replies are interleaved with real messages by time so they appear where the reply was expected
+  const timeline: Array<{ kind: 'message'; message: Message } | { kind: 'failed'; failed: FailedReply }> = [
+    ...currentMessages
+      // Agents' whispers to each other are only shown to a user who chose to observe them
+      .filter((message) => observeWhispers || !isAgentWhisper(message) || message.id === highlightedMessageId)
+      .map((message) => ({ kind: 'message' as const, message })),
+    ...failedReplies
+      .filter((failed) => failed.mode === conversationMode)
+      .map((failed) => ({ kind: 'failed' as const, failed })),
+  ].sort((a, b) =>
+    (a.kind === 'message' ? a.message.timestamp : a.failed.timestamp) -
+    (b.kind === 'message' ? b.message.timestamp : b.failed.timestamp)
+  );
+  const regeneratingMessage = currentMessages.find((message) => message.id === regeneratingId);
+  const visibleStreamingReplies = useMemo(
+    () => Object.entries(streamingReplies).filter(
+      ([agentId, reply]) => reply.mode === conversationMode && agentId !== regeneratingMessage?.sender
+    ),
+    [streamingReplies, conversationMode, regeneratingMessage]
+  );
+  const streamedLength = visibleStreamingReplies.reduce((sum, [, reply]) => sum + reply.content.length, 0);
+
   useEffect(() => {
     scrollToBottom();
-  }, [conversationMode, currentMessages.length]);
+  }, [conversationMode, timeline.length, streamedLength]);
+
+  // Open the conversation holding a requested message; waits until the conversations have loaded
+  useEffect(() => {
+    if (!focusRequest || handledFocusRef.current === focusRequest) return;
+    if (!conversationManager.getMessages(focusRequest.mode).some((message) => message.id === focusRequest.messageId)) {
+      return;
+    }
+    handledFocusRef.current = focusRequest;
+
+    if (conversationModeRef.current !== focusRequest.mode) {
+      conversationManager.switchMode(focusRequest.mode);
+      conversationModeRef.current = focusRequest.mode;
+      setConversationMode(focusRequest.mode);
+      const nextRecipient = focusRequest.mode === 'group' ? 'everyone' : focusRequest.mode;
+      recipientRef.current = nextRecipient;
+      setRecipient(nextRecipient);
+      conversationStore.setMeta('currentMode', focusRequest.mode).catch((e) => console.error("Failed to save conversation:", e));
+    }
+    setHighlightedMessageId(focusRequest.messageId);
+  }, [focusRequest, messageVersion, conversationManager, conversationStore]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    // Runs after the scroll-to-bottom for the mode switch, so the message stays in view
+    const scrollTimer = setTimeout(() => {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, 150);
+    const clearTimer = setTimeout(() => setHighlightedMessageId(null), 4000);
+    return () => {
+      clearTimeout(scrollTimer);
+      clearTimeout(clearTimer);
+    };
+  }, [highlightedMessageId]);
 
-  const addMessage = (sender: string, recipient: string, content: string) => {
+  const addMessage = (sender: string, recipient: string, content: string, mentions?: string[]) => {
     const newMessage: Message = {
       id: Date.now().toString(),
       sender,
       recipient,
       content,
       timestamp: Date.now(),
+      ...(mentions && mentions.length > 0 ? { mentions } : {}),
     };
     console.log('[DEBUG] Adding message:', {
       sender,
@@ -124,16 +293,137 @@ const ChatInterface = () => {
     conversationManager.addMessage(newMessage);
     setMessageVersion((prev) => prev + 1);
 
-    // Persist to localStorage
-    saveConversationState(conversationManager.getCurrentMode());
+    persistMessage(conversationManager.getCurrentMode(), newMessage);
 
     return newMessage;
   };
 
-  const saveConversationState = (mode: ConversationMode = conversationMode) => {
-    const states = conversationManager.exportStates();
-    localStorage.setItem("coffeehouse-conversations", JSON.stringify(states));
-    localStorage.setItem("coffeehouse-conversation-mode", mode);
+  const logPersistError = (e: unknown) => console.error("Failed to save conversation:", e);
+
+  /**
+   * Write a single new message; the rest of the history is already stored
+   */
+  const persistMessage = (mode: ConversationMode, message: Message) => {
+    conversationStore.putMessage(mode, message).catch(logPersistError);
+    conversationStore.setMeta('currentMode', conversationManager.getCurrentMode()).catch(logPersistError);
+    onSessionUpdate({ updatedAt: message.timestamp });
+  };
+
+  const updateAutoRoundCount = (count: number) => {
+    autoRoundCountRef.current = count;
+    setAutoRoundCount(count);
+    onSessionUpdate({ autoRoundCount: count });
+  };
+
+  const updateAutoRoundLimit = (limit: number | null) => {
+    autoRoundLimitRef.current = limit;
+    setAutoRoundLimit(limit);
+    onSessionUpdate({ autoRoundLimit: limit });
+  };
+
+  const updateTurnStrategy = (settings: TurnStrategySettings) => {
+    turnStrategyRef.current = settings;
+    setTurnStrategy(settings);
+    onSessionUpdate({ turnStrategy: settings });
+  };
+
+  const updateWhisperSettings = (changes: { agentWhispers?: boolean; observeWhispers?: boolean }) => {
+    if (changes.agentWhispers !== undefined) {
+      agentWhispersRef.current = changes.agentWhispers;
+      setAgentWhispers(changes.agentWhispers);
+    }
+    if (changes.observeWhispers !== undefined) {
+      setObserveWhispers(changes.observeWhispers);
+    }
+    onSessionUpdate(changes);
+  };
+
+  const updateStopConditions = (conditions: StopConditions) => {
+    stopConditionsRef.current = conditions;
+    setStopConditions(conditions);
+    onSessionUpdate({ stopConditions: conditions });
+  };
+
+  const persistContextSummaries = () => {
+    conversationStore.setMeta('contextSummaries', conversationManager.exportContextSummaries()).catch(logPersistError);
+  };
+
+  const recordSpending = (agentId: string, mode: ConversationMode, cost: number, tokens = 0) => {
+    spendingTracker.record(agentId, mode, cost);
+    if (autoRunRef.current && autoConversationActiveRef.current) {
+      autoRunRef.current.cost += cost;
+      autoRunRef.current.tokens += tokens;
+    }
+    saveSpending(session.id, spendingTracker.exportState());
+    setSpendingVersion((prev) => prev + 1);
+  };
+
+  const notifyBudgetReached = (reason: string) => {
+    toast({
+      title: "Budget reached",
+      description: `${reason}. Raise the limit in Settings to continue.`,
+      variant: "destructive",
+    });
+  };
+
+  const recordFailedReply = (agent: AgentConfig, mode: ConversationMode, error: unknown, inReplyTo?: string) => {
+    const description = describeAgentError(error);
+    console.error(`[DEBUG] ${agent.name} failed to reply:`, error);
+    clearStreamingReply(agent.id);
+    setFailedReplies((prev) => [
+      ...prev,
+      {
+        id: `failed-${Date.now()}-${agent.id}`,
+        agentId: agent.id,
+        mode,
+        error: description,
+        timestamp: Date.now(),
+        inReplyTo,
+      },
+    ]);
+
+    // Debug event: Agent reply failed but the rest of the turn continues
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'agent_reply_failed',
+      reason: `${agent.name} failed: ${description}`,
+      affectedAgents: [agent.id],
+    } as OrchestratorDecisionEvent);
+  };
+
+  const dismissFailedReply = (failedId: string) => {
+    setFailedReplies((prev) => prev.filter((failed) => failed.id !== failedId));
+  };
+
+  const updateStreamingReply = (agentId: string, mode: ConversationMode, content: string) => {
+    setStreamingReplies((prev) => ({ ...prev, [agentId]: { mode, content } }));
+  };
+
+  const clearStreamingReply = (agentId: string) => {
+    setStreamingReplies((prev) => {
+      if (!(agentId in prev)) return prev;
+      const next = { ...prev };
+      delete next[agentId];
+      return next;
+    });
+  };
+
+  const beginPendingRequests = () => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    return controller;
+  };
+
+  const finishPendingRequests = (controller: AbortController) => {
+    if (abortControllerRef.current === controller) {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const cancelPendingRequests = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
   };
 
   const clearAutoConversationTimeout = () => {
@@ -160,6 +450,7 @@ const ChatInterface = () => {
 
   const stopAutoConversation = (options?: { silent?: boolean }) => {
     autoConversationActiveRef.current = false;
+    cancelPendingRequests();
     if (!options?.silent) {
       setAutoConversationActive(false);
 
@@ -173,6 +464,21 @@ const ChatInterface = () => {
     clearAutoConversationTimeout();
   };
 
+  const pauseAutoConversationForBudget = (reason: string) => {
+    // Debug event: Budget stopped the auto conversation
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'budget_limit_reached',
+      reason,
+      context: { sessionTotal: spendingTracker.getSessionTotal() },
+    } as OrchestratorDecisionEvent);
+
+    stopAutoConversation();
+    toast({
+      title: "Auto conversation paused",
+      description: `${reason}. Raise the limit in Settings to continue.`,
+    });
+  };
+
   const executeAutoTurn = async () => {
     if (!autoConversationActiveRef.current) return;
     if (autoTurnInProgressRef.current) return;
@@ -181,21 +487,47 @@ const ChatInterface = () => {
       return;
     }
 
-    const currentAgents = agentsRef.current;
-    if (!currentAgents.length) {
+    if (!agentsRef.current.length) {
       stopAutoConversation();
       return;
     }
 
+    const sessionCheck = spendingTracker.checkBudget(loadSessionBudget(session.id));
+    if (!sessionCheck.allowed) {
+      pauseAutoConversationForBudget(sessionCheck.reason);
+      return;
+    }
+
+    // Agents that have used up their own budget sit the round out
+    const currentAgents = agentsRef.current.filter(
+      (agent) => spendingTracker.checkBudget(null, agent).allowed
+    );
+    if (!currentAgents.length) {
+      pauseAutoConversationForBudget("Every agent has reached its budget");
+      return;
+    }
+
     autoTurnInProgressRef.current = true;
     isLoadingRef.current = true;
     setIsLoading(true);
+    const controller = beginPendingRequests();
+
+    const turnSettings = turnStrategyRef.current;
+    const strategy = TURN_STRATEGIES[turnSettings.strategy];
+    // The moderator chooses speakers rather than being one, unless nobody else could speak
+    const otherAgents = currentAgents.filter((agent) => agent.id !== turnSettings.moderatorId);
+    const moderator = otherAgents.length > 0 ? currentAgents.find((agent) => agent.id === turnSettings.moderatorId) : undefined;
+    const speakers = moderator ? otherAgents : currentAgents;
+    const whispersAllowed = agentWhispersRef.current && speakers.length > 1;
+    const conditions = stopConditionsRef.current;
 
     // Debug event: Auto conversation turn starting
     debugEvents.emit('orchestrator_decision', {
       decision: 'auto_conversation_turn',
-      reason: `Executing auto turn for ${currentAgents.length} agent(s)`,
-      affectedAgents: currentAgents.map(a => a.id),
+      reason: moderator
+        ? `Executing auto turn for ${speakers.length} agent(s), moderated by ${moderator.name}`
+        : `Executing auto turn for ${speakers.length} agent(s), ${strategy.label.toLowerCase()} order`,
+      affectedAgents: speakers.map(a => a.id),
     } as OrchestratorDecisionEvent);
 
     try {
@@ -206,40 +538,241 @@ const ChatInterface = () => {
         setRecipient('everyone');
         recipientRef.current = 'everyone';
         conversationModeRef.current = 'group';
-        localStorage.setItem("coffeehouse-conversation-mode", 'group');
+        conversationStore.setMeta('currentMode', 'group').catch(logPersistError);
       }
 
       let anyResponses = false;
+      let moderatorEndReason: string | null = null;
+      let stopTrigger: StopTrigger | null = null;
+      const spokenThisRound: string[] = [];
 
-      for (let i = 0; i < currentAgents.length; i++) {
+      // A round has as many turns as there are speakers; the moderator or strategy decides who takes each
+      for (let i = 0; i < speakers.length; i++) {
         if (!autoConversationActiveRef.current) {
           break;
         }
 
-        const agent = currentAgents[i];
-        const response = await getAgentResponse(agent);
+        // Earlier replies this round may have used up the session budget
+        const budgetCheck = spendingTracker.checkBudget(loadSessionBudget(session.id));
+        if (!budgetCheck.allowed) {
+          pauseAutoConversationForBudget(budgetCheck.reason);
+          break;
+        }
+
+        stopTrigger = autoRunRef.current && checkRunLimits(conditions, autoRunRef.current);
+        if (stopTrigger) {
+          break;
+        }
+
+        let pick: TurnPick | null = null;
+        let nudge: string | undefined;
+        let moderatorProblem: string | null = null;
+        if (moderator) {
+          try {
+            const result = await askModerator(moderator, speakers, conversationManager.getMessages('group'), {
+              agents: agentsRef.current,
+              signal: controller.signal,
+            });
+            recordSpending(moderator.id, 'group', result.cost, result.tokens);
+            if (result.decision?.action === 'end') {
+              moderatorEndReason = result.decision.reason;
+              break;
+            }
+            if (result.decision) {
+              pick = { agent: result.decision.agent, reason: `${moderator.name} (moderator): ${result.decision.reason}` };
+              nudge = result.decision.nudge;
+            } else {
+              moderatorProblem = `${moderator.name} gave no usable choice (${result.problem})`;
+            }
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            moderatorProblem = `${moderator.name} could not be reached (${describeAgentError(error)})`;
+          }
+        }
+
+        if (!pick) {
+          pick = strategy.pickNext({
+            agents: speakers,
+            history: conversationManager.getMessages('group'),
+            spokenThisRound,
+            settings: turnSettings,
+          });
+          if (pick && moderatorProblem) {
+            pick = { ...pick, reason: `${moderatorProblem}; ${pick.reason}` };
+          }
+        }
+        if (!pick) {
+          // Debug event: Strategy has nobody left to pick this round
+          debugEvents.emit('orchestrator_decision', {
+            decision: 'end_round_early',
+            reason: `${strategy.label} order had no one left to pick after ${i} turn(s)`,
+            context: { strategy: turnSettings.strategy, turn: i + 1 },
+          } as OrchestratorDecisionEvent);
+          break;
+        }
+
+        const agent = pick.agent;
+        spokenThisRound.push(agent.id);
+
+        // Debug event: Moderator or strategy chose the next speaker
+        debugEvents.emit('orchestrator_decision', {
+          decision: 'pick_next_speaker',
+          reason: pick.reason,
+          affectedAgents: [agent.id],
+          context: {
+            strategy: moderator && !moderatorProblem ? 'moderator' : turnSettings.strategy,
+            turn: i + 1,
+            round: autoRoundCountRef.current + 1,
+            nudge,
+          },
+        } as OrchestratorDecisionEvent);
+
+        const whisperRecipients = speakers.filter((other) => other.id !== agent.id);
+        const instructions = [
+          whispersAllowed ? getWhisperInstructions(whisperRecipients) : null,
+          conditions.endSignal ? getEndSignalInstructions() : null,
+        ].filter(Boolean);
+        let response: string;
+        try {
+          response = await getAgentResponse(agent, 'group', controller.signal, {
+            nudge,
+            instructions: instructions.length ? instructions.join('\n\n') : undefined,
+          });
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // One agent failing shouldn't end the round for everyone else
+          recordFailedReply(agent, 'group', error);
+          continue;
+        }
         const timestamp = Date.now();
 
-        const newMessage: Message = {
-          id: `${timestamp}-${agent.id}-${i}`,
+        const { content, endReason } = conditions.endSignal
+          ? parseEndSignal(response)
+          : { content: response, endReason: null };
+        // Whispers are stored in the group chat, addressed to one agent, so only the pair sees them
+        const { publicContent, whispers } = whispersAllowed
+          ? parseWhisperDirectives(content, whisperRecipients)
+          : { publicContent: content, whispers: [] };
+        const newMessages: Message[] = whispers.map((whisper, index) => ({
+          id: `${timestamp}-${agent.id}-${i}-whisper-${index}`,
           sender: agent.id,
-          recipient: "everyone",
-          content: response,
+          recipient: whisper.recipient.id,
+          content: whisper.content,
           timestamp: timestamp + i,
-        };
-        conversationManager.addMessageToMode('group', newMessage);
+          autoTurn: true,
+        }));
+        // A reply that only ends the conversation leaves nothing to show
+        if (publicContent || (whispers.length === 0 && endReason === null)) {
+          newMessages.push({
+            id: `${timestamp}-${agent.id}-${i}`,
+            sender: agent.id,
+            recipient: "everyone",
+            content: publicContent,
+            timestamp: timestamp + i,
+            autoTurn: true,
+          });
+        }
+
+        whispers.forEach((whisper) => {
+          // Debug event: Agent whispered to another agent
+          debugEvents.emit('orchestrator_decision', {
+            decision: 'agent_whisper',
+            reason: `${agent.name} whispered to ${whisper.recipient.name}`,
+            affectedAgents: [agent.id, whisper.recipient.id],
+          } as OrchestratorDecisionEvent);
+        });
+
+        newMessages.forEach((newMessage) => {
+          conversationManager.addMessageToMode('group', newMessage);
+          persistMessage('group', newMessage);
+        });
+        clearStreamingReply(agent.id);
         setMessageVersion((prev) => prev + 1);
-        saveConversationState('group');
         anyResponses = true;
 
-        if (i < currentAgents.length - 1 && autoConversationActiveRef.current) {
+        if (endReason !== null) {
+          stopTrigger = {
+            condition: 'end_signal',
+            reason: endReason ? `${agent.name} ended it: ${endReason}` : `${agent.name} ended it`,
+            agentId: agent.id,
+          };
+        } else {
+          const runStart = autoRunRef.current?.startedAt ?? 0;
+          const replies = conversationManager
+            .getMessages('group')
+            .filter((msg) => msg.timestamp >= runStart && msg.sender !== 'user' && msg.recipient === 'everyone');
+          stopTrigger = checkReply(conditions, agent, publicContent, replies)
+            ?? (autoRunRef.current && checkRunLimits(conditions, autoRunRef.current));
+        }
+        if (stopTrigger) {
+          break;
+        }
+
+        if (i < speakers.length - 1 && autoConversationActiveRef.current) {
           await new Promise((resolve) => setTimeout(resolve, 500));
         }
       }
 
+      if (moderatorEndReason !== null && moderator) {
+        if (anyResponses) {
+          updateAutoRoundCount(autoRoundCountRef.current + 1);
+        }
+
+        // Debug event: Moderator ended the conversation
+        debugEvents.emit('orchestrator_decision', {
+          decision: 'moderator_end_conversation',
+          reason: moderatorEndReason,
+          affectedAgents: [moderator.id],
+        } as OrchestratorDecisionEvent);
+
+        const wasActive = autoConversationActiveRef.current;
+        stopAutoConversation();
+        if (wasActive) {
+          toast({
+            title: "Auto conversation complete",
+            description: `${moderator.name} ended it: ${moderatorEndReason}`,
+          });
+        }
+        return;
+      }
+
+      if (stopTrigger) {
+        if (anyResponses) {
+          updateAutoRoundCount(autoRoundCountRef.current + 1);
+        }
+
+        // Debug event: A stop condition ended the conversation
+        debugEvents.emit('orchestrator_decision', {
+          decision: 'stop_condition_met',
+          reason: `${STOP_CONDITION_LABELS[stopTrigger.condition]}: ${stopTrigger.reason}`,
+          affectedAgents: stopTrigger.agentId ? [stopTrigger.agentId] : undefined,
+          context: { condition: stopTrigger.condition, round: autoRoundCountRef.current, ...autoRunRef.current },
+        } as OrchestratorDecisionEvent);
+
+        const wasActive = autoConversationActiveRef.current;
+        stopAutoConversation();
+        if (wasActive) {
+          toast({
+            title: "Auto conversation complete",
+            description: `${STOP_CONDITION_LABELS[stopTrigger.condition]}: ${stopTrigger.reason}`,
+          });
+        }
+        return;
+      }
+
+      if (!anyResponses && autoConversationActiveRef.current) {
+        // Every agent failed - stop rather than hammering broken providers forever
+        stopAutoConversation();
+        toast({
+          title: "Auto conversation stopped",
+          description: "No agent could reply this round. Check the errors above and retry.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       if (anyResponses) {
-        autoRoundCountRef.current += 1;
-        setAutoRoundCount(autoRoundCountRef.current);
+        updateAutoRoundCount(autoRoundCountRef.current + 1);
 
         const limit = autoRoundLimitRef.current;
         if (limit !== null && autoRoundCountRef.current >= limit) {
@@ -252,11 +785,17 @@ const ChatInterface = () => {
         }
       }
     } catch (error) {
-      console.error("Auto conversation error:", error);
+      if (isAbortError(error)) {
+        console.log("[DEBUG] Auto conversation turn cancelled");
+      } else {
+        console.error("Auto conversation error:", error);
+      }
     } finally {
+      finishPendingRequests(controller);
       autoTurnInProgressRef.current = false;
       isLoadingRef.current = false;
       setIsLoading(false);
+      setStreamingReplies({});
       if (autoConversationActiveRef.current) {
         scheduleAutoTurn(1500);
       }
@@ -275,8 +814,8 @@ const ChatInterface = () => {
 
     autoConversationActiveRef.current = true;
     setAutoConversationActive(true);
-    autoRoundCountRef.current = 0;
-    setAutoRoundCount(0);
+    updateAutoRoundCount(0);
+    autoRunRef.current = { startedAt: Date.now(), tokens: 0, cost: 0 };
 
     // Debug event: Auto conversation started
     debugEvents.emit('system_event', {
@@ -291,7 +830,7 @@ const ChatInterface = () => {
       setRecipient('everyone');
       recipientRef.current = 'everyone';
       conversationModeRef.current = 'group';
-      localStorage.setItem("coffeehouse-conversation-mode", 'group');
+      conversationStore.setMeta('currentMode', 'group').catch(logPersistError);
     }
 
     scheduleAutoTurn(200);
@@ -309,8 +848,7 @@ const ChatInterface = () => {
     const value = event.target.value;
 
     if (value === "") {
-      setAutoRoundLimit(null);
-      autoRoundLimitRef.current = null;
+      updateAutoRoundLimit(null);
       return;
     }
 
@@ -320,13 +858,11 @@ const ChatInterface = () => {
     }
 
     if (parsed <= 0) {
-      setAutoRoundLimit(null);
-      autoRoundLimitRef.current = null;
+      updateAutoRoundLimit(null);
       return;
     }
 
-    setAutoRoundLimit(parsed);
-    autoRoundLimitRef.current = parsed;
+    updateAutoRoundLimit(parsed);
 
     if (autoConversationActiveRef.current && autoRoundCountRef.current >= parsed) {
       stopAutoConversation();
@@ -334,54 +870,99 @@ const ChatInterface = () => {
     }
   };
 
-  const getAgentResponse = async (agent: AgentConfig) => {
-    try {
-      console.log('[DEBUG] Getting response for agent:', agent.id);
-      const agentMessages = conversationManager.getMessagesForAgent(agent.id);
-      console.log('[DEBUG] Messages available to agent:', agentMessages);
-      console.log('[DEBUG] Message count:', agentMessages.length);
-      console.log('[DEBUG] Last 5 messages:', agentMessages.slice(-5));
-      const response = await callAgent(agent, agentMessages);
-      return response;
-    } catch (error) {
-      if (error instanceof ApiError) {
-        toast({
-          title: `${agent.name} Error`,
-          description: error.message,
-          variant: "destructive",
-        });
-      } else {
-        toast({
-          title: `${agent.name} Error`,
-          description: "Failed to get response. Please check your API key and try again.",
-          variant: "destructive",
-        });
-      }
-      throw error;
+  // Failures are reported by the caller as inline error bubbles.
+  // `history` replaces the agent's full history, e.g. to regenerate an earlier reply;
+  // `nudge` is a moderator's direction for this reply, `instructions` extra rules such as how to whisper.
+  const getAgentResponse = async (
+    agent: AgentConfig,
+    mode: ConversationMode,
+    signal?: AbortSignal,
+    { history, nudge, instructions }: { history?: Message[]; nudge?: string; instructions?: string } = {}
+  ) => {
+    console.log('[DEBUG] Getting response for agent:', agent.id);
+    const agentMessages = history ?? conversationManager.getMessagesForAgent(agent.id, mode);
+    console.log('[DEBUG] Messages available to agent:', agentMessages);
+    console.log('[DEBUG] Message count:', agentMessages.length);
+    console.log('[DEBUG] Last 5 messages:', agentMessages.slice(-5));
+
+    // A summary reaching past the end of a partial history would leak what came after it
+    const storedSummary = conversationManager.getContextSummary(agent.id, mode);
+    const historyEnd = agentMessages.length ? agentMessages[agentMessages.length - 1].timestamp : 0;
+    const summary = history && storedSummary && storedSummary.coveredUntil > historyEnd ? undefined : storedSummary;
+
+    // Keep the prompt within the model's window, compressing older turns into a summary
+    const context = await buildAgentContext(agent, agentMessages, {
+      agents: agentsRef.current,
+      summary,
+      signal,
+    });
+    if (context.summaryCost) {
+      recordSpending(context.summaryCost.agentId, mode, context.summaryCost.cost, context.summaryCost.tokens);
+    }
+    // Only a summary of the full history is worth keeping
+    if (!history && context.summary && context.summary !== storedSummary) {
+      conversationManager.setContextSummary(agent.id, mode, context.summary);
+      persistContextSummaries();
     }
+
+    const response = await callAgent(agent, context.messages, {
+      onPartial: (partialText) => updateStreamingReply(agent.id, mode, partialText),
+      signal,
+      contextSummary: context.summary?.content,
+      nudge,
+      instructions,
+      participants: agentsRef.current,
+    });
+    recordSpending(agent.id, mode, response.cost ?? 0, response.tokens ?? 0);
+    return response.content;
   };
 
-  const handleSendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+  /**
+   * Agents that should answer a message to `target`, or only those it mentions, leaving out those over budget.
+   * Returns null, after telling the user why, when the message can't be answered.
+   */
+  const selectRespondingAgents = (target: string, mentions?: string[]): AgentConfig[] | null => {
+    const sessionCheck = spendingTracker.checkBudget(loadSessionBudget(session.id));
+    if (!sessionCheck.allowed) {
+      notifyBudgetReached(sessionCheck.reason);
+      return null;
+    }
 
-    if (autoConversationActiveRef.current) {
-      stopAutoConversation();
+    // Agents over their own budget don't reply; block the send if nobody is left to answer
+    let targetAgents = agents.filter((a) => a.id === target);
+    if (target === "everyone") {
+      targetAgents = mentions?.length ? agents.filter((a) => mentions.includes(a.id)) : agents;
     }
+    const respondingAgents = targetAgents.filter((agent) => spendingTracker.checkBudget(null, agent).allowed);
+    if (targetAgents.length > 0 && respondingAgents.length === 0) {
+      notifyBudgetReached(
+        targetAgents.length === 1
+          ? spendingTracker.checkBudget(null, targetAgents[0]).reason
+          : "Every agent has reached its budget"
+      );
+      return null;
+    }
+    if (respondingAgents.length < targetAgents.length) {
+      const skipped = targetAgents.filter((agent) => !respondingAgents.includes(agent));
+      toast({
+        title: "Some agents are over budget",
+        description: `${skipped.map((agent) => agent.name).join(", ")} will not reply.`,
+      });
+    }
+    return respondingAgents;
+  };
 
-    const userMessage = input.trim();
-    setInput("");
+  /**
+   * Collect the agents' replies to the latest user message in a conversation.
+   * `mode` is captured by the caller, so replies land in the right conversation even if the user switches tabs.
+   */
+  const requestReplies = async (target: string, mode: ConversationMode, respondingAgents: AgentConfig[]) => {
     isLoadingRef.current = true;
     setIsLoading(true);
-
-    // Capture the conversation mode at the time of sending
-    // This ensures responses go to the correct conversation even if the user switches tabs
-    const messageConversationMode = conversationMode;
-
-    // Add user message to the current conversation
-    addMessage("user", recipient, userMessage);
+    const controller = beginPendingRequests();
 
     try {
-      if (recipient === "everyone") {
+      if (target === "everyone") {
         // Group conversation mode - get ALL agent responses in parallel FIRST
         // This prevents agents from seeing each other's responses before generating their own
 
@@ -389,18 +970,28 @@ const ChatInterface = () => {
         debugEvents.emit('orchestrator_decision', {
           decision: 'parallel_agent_responses',
           reason: 'Getting responses from all agents in parallel to prevent cross-contamination',
-          affectedAgents: agents.map(a => a.id),
+          affectedAgents: respondingAgents.map(a => a.id),
         } as OrchestratorDecisionEvent);
 
-        const responsePromises = agents.map(async (agent) => {
-          const response = await getAgentResponse(agent);
-          return { agent, response };
+        const trigger = [...conversationManager.getMessages(mode)].reverse().find((msg) => msg.sender === 'user');
+        const responsePromises = respondingAgents.map((agent) =>
+          getAgentResponse(agent, mode, controller.signal)
+        );
+
+        // Wait for ALL responses to settle; one failure must not discard the others
+        const results = await Promise.allSettled(responsePromises);
+
+        const responses: Array<{ agent: AgentConfig; response: string }> = [];
+        results.forEach((result, index) => {
+          const agent = respondingAgents[index];
+          if (result.status === 'fulfilled') {
+            responses.push({ agent, response: result.value });
+          } else if (!isAbortError(result.reason)) {
+            recordFailedReply(agent, mode, result.reason, trigger?.id);
+          }
         });
 
-        // Wait for ALL responses to complete
-        const responses = await Promise.all(responsePromises);
-
-        // THEN add all responses to conversation
+        // THEN add all successful responses to conversation
         for (let i = 0; i < responses.length; i++) {
           const { agent, response } = responses[i];
           const timestamp = Date.now();
@@ -411,10 +1002,12 @@ const ChatInterface = () => {
             recipient: "everyone",
             content: response,
             timestamp: timestamp + i, // Slight offset keeps ordering deterministic
+            inReplyTo: trigger?.id,
           };
-          conversationManager.addMessageToMode(messageConversationMode, newMessage);
+          conversationManager.addMessageToMode(mode, newMessage);
+          clearStreamingReply(agent.id);
           setMessageVersion((prev) => prev + 1);
-          saveConversationState(messageConversationMode);
+          persistMessage(mode, newMessage);
 
           // Small delay between responses for natural flow (except after the last one)
           if (i < responses.length - 1) {
@@ -423,7 +1016,7 @@ const ChatInterface = () => {
         }
       } else {
         // Private conversation mode - only the selected agent responds
-        const targetAgent = agents.find((a) => a.id === recipient);
+        const targetAgent = respondingAgents[0];
         if (targetAgent) {
           // Debug event: Orchestrator decision for single agent response
           debugEvents.emit('orchestrator_decision', {
@@ -432,7 +1025,14 @@ const ChatInterface = () => {
             affectedAgents: [targetAgent.id],
           } as OrchestratorDecisionEvent);
 
-          const response = await getAgentResponse(targetAgent);
+          let response: string;
+          try {
+            response = await getAgentResponse(targetAgent, mode, controller.signal);
+          } catch (error) {
+            if (isAbortError(error)) throw error;
+            recordFailedReply(targetAgent, mode, error);
+            return;
+          }
           const timestamp = Date.now();
 
           // Add response to the original conversation mode, not the current one
@@ -443,16 +1043,292 @@ const ChatInterface = () => {
             content: response,
             timestamp,
           };
-          conversationManager.addMessageToMode(messageConversationMode, newMessage);
+          conversationManager.addMessageToMode(mode, newMessage);
+          clearStreamingReply(targetAgent.id);
           setMessageVersion((prev) => prev + 1);
-          saveConversationState(messageConversationMode);
+          persistMessage(mode, newMessage);
         }
       }
     } catch (error) {
-      console.error("Error getting AI response:", error);
+      if (isAbortError(error)) {
+        // Replies are only committed once complete, so the user's message simply stays unanswered
+        console.log("[DEBUG] Agent responses cancelled");
+      } else {
+        console.error("Error getting AI response:", error);
+      }
+    } finally {
+      finishPendingRequests(controller);
+      setIsLoading(false);
+      isLoadingRef.current = false;
+      setStreamingReplies({});
+    }
+  };
+
+  const handleSendMessage = async () => {
+    if (!input.trim() || isLoading) return;
+
+    if (autoConversationActiveRef.current) {
+      stopAutoConversation();
+    }
+
+    const userMessage = input.trim();
+    // "@Name" in the group chat asks just those agents, who still reply in public
+    const mentions = recipient === "everyone" ? parseMentions(userMessage, agents) : [];
+    const respondingAgents = selectRespondingAgents(recipient, mentions);
+    if (!respondingAgents) return;
+
+    setInput("");
+
+    // Capture the conversation mode at the time of sending
+    const messageConversationMode = conversationMode;
+
+    if (mentions.length > 0) {
+      // Debug event: Mentions narrow who replies
+      debugEvents.emit('orchestrator_decision', {
+        decision: 'mention_routing',
+        reason: `Message mentions ${mentions.map((id) => getAgentInfo(id)?.name || id).join(', ')}; only they reply`,
+        affectedAgents: respondingAgents.map((a) => a.id),
+      } as OrchestratorDecisionEvent);
+    }
+
+    // Add user message to the current conversation
+    addMessage("user", recipient, userMessage, mentions);
+    await requestReplies(recipient, messageConversationMode, respondingAgents);
+  };
+
+  /**
+   * History for answering a user message again in parallel with other agents: the conversation up to
+   * that message, leaving out the sibling replies the agent never saw. Undefined when the message is gone.
+   */
+  const getParallelReplyHistory = (agentId: string, mode: ConversationMode, inReplyTo?: string) => {
+    const trigger = inReplyTo ? conversationManager.getMessages(mode).find((msg) => msg.id === inReplyTo) : undefined;
+    if (!trigger) return undefined;
+    return conversationManager.getMessagesForAgent(agentId, mode).filter((msg) => msg.timestamp <= trigger.timestamp);
+  };
+
+  const handleRetryFailedReply = async (failed: FailedReply) => {
+    if (isLoadingRef.current) return;
+
+    const agent = agents.find((a) => a.id === failed.agentId);
+    if (!agent) {
+      dismissFailedReply(failed.id);
+      return;
+    }
+
+    const budgetCheck = spendingTracker.checkBudget(loadSessionBudget(session.id), agent);
+    if (!budgetCheck.allowed) {
+      notifyBudgetReached(budgetCheck.reason);
+      return;
+    }
+
+    dismissFailedReply(failed.id);
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    const controller = beginPendingRequests();
+
+    // Debug event: User retried a single agent
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'retry_failed_agent',
+      reason: `User retried ${agent.name} after: ${failed.error}`,
+      affectedAgents: [agent.id],
+    } as OrchestratorDecisionEvent);
+
+    try {
+      const response = await getAgentResponse(agent, failed.mode, controller.signal, {
+        history: getParallelReplyHistory(agent.id, failed.mode, failed.inReplyTo),
+      });
+      const timestamp = Date.now();
+      const newMessage: Message = {
+        id: `${timestamp}-${agent.id}`,
+        sender: agent.id,
+        recipient: failed.mode === 'group' ? "everyone" : "user",
+        content: response,
+        timestamp,
+        inReplyTo: failed.inReplyTo,
+      };
+      conversationManager.addMessageToMode(failed.mode, newMessage);
+      setMessageVersion((prev) => prev + 1);
+      persistMessage(failed.mode, newMessage);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        recordFailedReply(agent, failed.mode, error, failed.inReplyTo);
+      }
+    } finally {
+      finishPendingRequests(controller);
+      setIsLoading(false);
+      isLoadingRef.current = false;
+      setStreamingReplies({});
+    }
+  };
+
+  const handleRegenerateMessage = async (message: Message) => {
+    if (isLoadingRef.current || message.autoTurn) return;
+
+    const agent = agents.find((a) => a.id === message.sender);
+    if (!agent) {
+      toast({
+        title: "Cannot regenerate",
+        description: "This agent is no longer part of the session.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const budgetCheck = spendingTracker.checkBudget(loadSessionBudget(session.id), agent);
+    if (!budgetCheck.allowed) {
+      notifyBudgetReached(budgetCheck.reason);
+      return;
+    }
+
+    if (autoConversationActiveRef.current) {
+      stopAutoConversation();
+    }
+
+    const mode = conversationMode;
+    isLoadingRef.current = true;
+    setIsLoading(true);
+    setRegeneratingId(message.id);
+    const controller = beginPendingRequests();
+
+    // Debug event: User asked for another version of a reply
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'regenerate_message',
+      reason: `User regenerated ${agent.name}'s reply ${message.id}`,
+      affectedAgents: [agent.id],
+    } as OrchestratorDecisionEvent);
+
+    try {
+      // The agent sees the conversation as it was when it first replied
+      const history = getParallelReplyHistory(agent.id, mode, message.inReplyTo) ?? conversationManager
+        .getMessagesForAgent(agent.id, mode)
+        .filter((msg) => msg.timestamp < message.timestamp);
+      const response = await getAgentResponse(agent, mode, controller.signal, { history });
+      const versions = message.versions ?? [message.content];
+      const updated: Message = {
+        ...message,
+        content: response,
+        versions: [...versions, response],
+        activeVersion: versions.length,
+      };
+      if (conversationManager.replaceMessage(mode, updated)) {
+        conversationStore.putMessage(mode, updated).catch(logPersistError);
+        persistContextSummaries();
+        setMessageVersion((prev) => prev + 1);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error(`[DEBUG] ${agent.name} failed to regenerate:`, error);
+        toast({
+          title: "Regeneration failed",
+          description: describeAgentError(error),
+          variant: "destructive",
+        });
+      }
     } finally {
+      finishPendingRequests(controller);
       setIsLoading(false);
       isLoadingRef.current = false;
+      setRegeneratingId(null);
+      setStreamingReplies({});
+    }
+  };
+
+  const handleSelectVersion = (message: Message, index: number) => {
+    if (!message.versions || index < 0 || index >= message.versions.length) return;
+    const updated: Message = { ...message, content: message.versions[index], activeVersion: index };
+    if (conversationManager.replaceMessage(conversationMode, updated)) {
+      conversationStore.putMessage(conversationMode, updated).catch(logPersistError);
+      persistContextSummaries();
+      setMessageVersion((prev) => prev + 1);
+    }
+  };
+
+  /**
+   * Save an edited user message and re-run the replies that followed it
+   */
+  const handleEditMessage = async (message: Message, content: string) => {
+    if (isLoadingRef.current) return;
+
+    if (autoConversationActiveRef.current) {
+      stopAutoConversation();
+    }
+
+    const mentions = message.recipient === "everyone" ? parseMentions(content, agents) : [];
+    const respondingAgents = selectRespondingAgents(message.recipient, mentions);
+    if (!respondingAgents) return;
+
+    const mode = conversationMode;
+    const updated: Message = { ...message, content, editedAt: Date.now(), mentions: mentions.length > 0 ? mentions : undefined };
+    conversationManager.replaceMessage(mode, updated);
+    const downstream = conversationManager.removeMessagesAfter(mode, message.id);
+
+    conversationStore.putMessage(mode, updated).catch(logPersistError);
+    downstream.forEach((removed) => conversationStore.deleteMessage(mode, removed.id).catch(logPersistError));
+    persistContextSummaries();
+    setFailedReplies((prev) => prev.filter((failed) => failed.mode !== mode || failed.timestamp < message.timestamp));
+    setMessageVersion((prev) => prev + 1);
+
+    // Debug event: Edited message replaces the replies that followed it
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'edit_message',
+      reason: `User edited message ${message.id}; re-running ${downstream.length} later message(s)`,
+      affectedAgents: respondingAgents.map((a) => a.id),
+    } as OrchestratorDecisionEvent);
+
+    await requestReplies(message.recipient, mode, respondingAgents);
+  };
+
+  const handleDeleteMessage = (message: Message) => {
+    const mode = conversationMode;
+    if (!conversationManager.removeMessage(mode, message.id)) return;
+    conversationStore.deleteMessage(mode, message.id).catch(logPersistError);
+    persistContextSummaries();
+    setMessageVersion((prev) => prev + 1);
+  };
+
+  const handleStopGenerating = () => {
+    const hadPendingRequests = abortControllerRef.current !== null;
+
+    // Stopping generation also stops auto mode, otherwise the next turn would start right away
+    if (autoConversationActiveRef.current) {
+      stopAutoConversation();
+    } else {
+      cancelPendingRequests();
+    }
+
+    if (hadPendingRequests) {
+      // Debug event: Generation cancelled by the user
+      debugEvents.emit('system_event', {
+        event: 'generation_cancelled',
+        details: 'User cancelled in-flight agent requests',
+      } as SystemEventEvent);
+    }
+  };
+
+  const handleBranchFrom = (messageId: string) => {
+    const snapshot = conversationManager.forkAt(messageId);
+    if (!snapshot) return;
+
+    // Debug event: Conversation branched
+    debugEvents.emit('orchestrator_decision', {
+      decision: 'branch_conversation',
+      reason: `User branched the conversation at message ${messageId}`,
+      context: { sessionId: session.id, mode: snapshot.mode },
+    } as OrchestratorDecisionEvent);
+
+    onBranch(snapshot);
+  };
+
+  const handleExportTranscript = (format: TranscriptFormat) => {
+    try {
+      downloadTranscript(buildTranscript(session, agents, conversationManager.exportStates()), format);
+    } catch (error) {
+      console.error("Failed to export transcript:", error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "The transcript could not be created.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -487,7 +1363,7 @@ const ChatInterface = () => {
       conversationModeRef.current = newMode;
 
       // Persist the mode change
-      localStorage.setItem("coffeehouse-conversation-mode", newMode);
+      conversationStore.setMeta('currentMode', newMode).catch(logPersistError);
     }
   };
 
@@ -500,12 +1376,22 @@ const ChatInterface = () => {
       {/* Header */}
         <header className="bg-card border-b border-border shadow-sm p-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
+            <SidebarTrigger className="text-muted-foreground hover:text-foreground" />
             <h1 className="text-2xl font-bold">☕ AI Coffeehouse</h1>
+            <span className="text-sm text-muted-foreground truncate max-w-[12rem]" title={session.name}>
+              {session.name}
+            </span>
             {conversationMode !== 'group' && (
               <span className="text-sm px-3 py-1 rounded-full bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-100 border border-green-300 dark:border-green-700">
                 Private: {getAgentInfo(conversationMode)?.emoji} {getAgentInfo(conversationMode)?.name}
               </span>
             )}
+            <SpendingSummary
+              tracker={spendingTracker}
+              agents={agents}
+              conversationMode={conversationMode}
+              sessionBudget={sessionBudget}
+            />
             <span className="text-xs px-3 py-1 rounded-full bg-muted text-muted-foreground border border-border">
               Rounds: {autoRoundCount}{autoRoundLimit !== null ? ` / ${autoRoundLimit}` : " / ∞"}
             </span>
@@ -516,6 +1402,14 @@ const ChatInterface = () => {
             )}
           </div>
           <div className="flex items-center gap-2">
+            <TurnStrategyPicker
+              settings={turnStrategy}
+              agents={agents}
+              onChange={updateTurnStrategy}
+              whispers={{ agentWhispers, observeWhispers }}
+              onWhispersChange={updateWhisperSettings}
+            />
+            <StopConditionsPicker conditions={stopConditions} onChange={updateStopConditions} />
             <div className="flex items-center gap-2 text-xs text-muted-foreground">
               <span>Limit</span>
               <Input
@@ -546,6 +1440,24 @@ const ChatInterface = () => {
                 </>
               )}
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Export transcript"
+                >
+                  <Download className="h-5 w-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Export this session</DropdownMenuLabel>
+                <DropdownMenuItem onSelect={() => handleExportTranscript('markdown')}>Markdown (.md)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExportTranscript('html')}>Web page (.html)</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExportTranscript('json')}>JSON (.json)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <Button
               variant="ghost"
               size="icon"
@@ -584,24 +1496,70 @@ const ChatInterface = () => {
           </div>
         )}
         
-        {currentMessages.map((message) => {
+        {timeline.map((item) => {
+          if (item.kind === 'failed') {
+            const agent = getAgentInfo(item.failed.agentId);
+            return (
+              <MessageBubble
+                key={item.failed.id}
+                sender={agent?.name || item.failed.agentId}
+                content={item.failed.error}
+                type={agent?.color || 'user'}
+                emoji={agent?.emoji || '🤖'}
+                isError
+                onRetry={isLoading ? undefined : () => handleRetryFailedReply(item.failed)}
+                onDismiss={() => dismissFailedReply(item.failed.id)}
+              />
+            );
+          }
+
+          const { message } = item;
           const agent = message.sender !== 'user' ? getAgentInfo(message.sender) : null;
+          const isRegenerating = message.id === regeneratingId;
           return (
             <MessageBubble
               key={message.id}
+              id={`message-${message.id}`}
+              isHighlighted={message.id === highlightedMessageId}
               sender={message.sender === 'user' ? 'You' : (agent?.name || message.sender)}
-              content={message.content}
+              content={isRegenerating ? (streamingReplies[message.sender]?.content || message.content) : message.content}
               type={message.sender === 'user' ? 'user' : (agent?.color || 'user')}
               emoji={message.sender === 'user' ? '🧍' : (agent?.emoji || '🤖')}
               isWhisper={message.recipient !== 'everyone'}
-              whisperTarget={message.recipient !== 'everyone' && message.sender === 'user' 
+              isAgentWhisper={isAgentWhisper(message)}
+              whisperTarget={message.recipient !== 'everyone' && message.recipient !== 'user'
                 ? getAgentInfo(message.recipient)?.name 
                 : undefined}
+              mentionNames={message.mentions?.map((id) => getAgentInfo(id)?.name || id)}
+              isStreaming={isRegenerating}
+              isEdited={message.editedAt !== undefined}
+              version={message.versions ? { index: message.activeVersion ?? 0, count: message.versions.length } : undefined}
+              onSelectVersion={isLoading ? undefined : (index) => handleSelectVersion(message, index)}
+              onBranch={isLoading ? undefined : () => handleBranchFrom(message.id)}
+              onRegenerate={
+                isLoading || message.sender === 'user' || message.autoTurn ? undefined : () => handleRegenerateMessage(message)
+              }
+              onEdit={isLoading || message.sender !== 'user' ? undefined : (content) => handleEditMessage(message, content)}
+              onDelete={isLoading ? undefined : () => handleDeleteMessage(message)}
             />
           );
         })}
         
-        {isLoading && (
+        {visibleStreamingReplies.map(([agentId, reply]) => {
+          const agent = getAgentInfo(agentId);
+          return (
+            <MessageBubble
+              key={`streaming-${agentId}`}
+              sender={agent?.name || agentId}
+              content={observeWhispers ? reply.content : stripWhisperLines(reply.content)}
+              type={agent?.color || 'user'}
+              emoji={agent?.emoji || '🤖'}
+              isStreaming
+            />
+          );
+        })}
+
+        {isLoading && !regeneratingId && visibleStreamingReplies.length === 0 && (
           <div className="flex items-center gap-2 text-muted-foreground">
             <div className="animate-pulse">💭</div>
             <span className="text-sm">Thinking...</span>
@@ -621,26 +1579,40 @@ const ChatInterface = () => {
         />
         
         <div className="flex gap-2">
-          <Textarea
+          <MentionTextarea
             value={input}
-            onChange={(e) => setInput(e.target.value)}
+            onChange={setInput}
+            agents={agents}
+            mentionsEnabled={recipient === "everyone"}
             onKeyPress={handleKeyPress}
             placeholder={
               recipient === "everyone" 
-                ? "Message everyone..." 
+                ? "Message everyone, or @mention agents to ask just them..." 
                 : `Whisper to ${getAgentInfo(recipient)?.name}...`
             }
             className="min-h-[80px] resize-none"
             disabled={isLoading}
           />
-          <Button
-            onClick={handleSendMessage}
-            disabled={!input.trim() || isLoading}
-            size="icon"
-            className="self-end h-[80px] w-[80px]"
-          >
-            <Send className="h-5 w-5" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={handleStopGenerating}
+              variant="outline"
+              size="icon"
+              className="self-end h-[80px] w-[80px]"
+              title="Stop generating"
+            >
+              <CircleStop className="h-5 w-5" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSendMessage}
+              disabled={!input.trim()}
+              size="icon"
+              className="self-end h-[80px] w-[80px]"
+            >
+              <Send className="h-5 w-5" />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -650,8 +1622,12 @@ const ChatInterface = () => {
         agents={agents}
         onAgentsChange={(newAgents) => {
           setAgents(newAgents);
-          localStorage.setItem("coffeehouse-agents", JSON.stringify(newAgents));
+          onSessionUpdate({ agents: newAgents, updatedAt: Date.now() });
+          // The latest roster is also the starting point for new sessions
+          savePersistedAgents(newAgents);
         }}
+        sessionId={session.id}
+        onSessionBudgetChange={setSessionBudget}
       />
 
       <DebugPanel
@@ -0,0 +1,52 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AgentConnectionFailure, CONNECTION_STATUS_LABELS } from "@/lib/apiClients";
+
+interface ConnectionCheckDialogProps {
+  failures: AgentConnectionFailure[];
+  onContinue: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-flight warning listing agents that failed the connection check.
+ * Users can still continue, e.g. when a provider only fails the check from the browser.
+ */
+const ConnectionCheckDialog = ({ failures, onContinue, onCancel }: ConnectionCheckDialogProps) => {
+  return (
+    <AlertDialog open={failures.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Some agents could not connect</AlertDialogTitle>
+          <AlertDialogDescription>
+            These agents will likely fail when they try to reply.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-2 text-sm">
+          {failures.map(({ agent, result }) => (
+            <li key={agent.id} className="rounded-md border border-destructive/30 bg-destructive/10 p-2">
+              <div className="font-medium">
+                {agent.emoji} {agent.name}: {CONNECTION_STATUS_LABELS[result.status]}
+              </div>
+              <div className="text-xs text-muted-foreground break-words">{result.message}</div>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Fix settings</AlertDialogCancel>
+          <AlertDialogAction onClick={onContinue}>Continue anyway</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ConnectionCheckDialog;
@@ -4,9 +4,10 @@ import { Bug, Copy, Download, X, GripHorizontal, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { AgentConfig } from '@/types/agent';
+import { AgentConfig, MEMORY_VISIBILITY_LABELS, Message } from '@/types/agent';
 import { ConversationStateManager, ConversationMode } from '@/lib/conversationStateManager';
 import { debugEvents } from '@/lib/debugEventEmitter';
+import { agentStatusTracker } from '@/lib/agentStatusTracker';
 import { DebugEvent } from '@/types/debug';
 
 interface DebugPanelProps {
@@ -348,18 +349,61 @@ ${consoleLog.slice(-20).map(l => `[${l.type.toUpperCase()}] ${l.message}`).join(
             <div className="text-[10px] text-gray-500 mb-1">AGENTS</div>
             <ScrollArea className="h-[calc(100%-20px)]">
               {agents && agents.length > 0 ? agents.map(agent => {
-                let msgs = [];
+                // Effective context for a reply in the group chat and in the agent's private chat
+                let groupContext: Message[] = [];
+                let privateContext: Message[] = [];
                 try {
-                  msgs = conversationManager.getMessagesForAgent(agent.id);
+                  groupContext = conversationManager.getMessagesForAgent(agent.id, 'group');
+                  privateContext = conversationManager.getMessagesForAgent(agent.id, agent.id);
                 } catch (error) {
                   console.error('Failed to get messages for agent:', error);
                 }
+                const policy = conversationManager.getMemoryPolicy(agent.id);
+                const shownContext = conversationMode === agent.id ? privateContext : groupContext;
+                const status = agentStatusTracker.getStatus(agent.id);
+                let statusColor = 'text-gray-500';
+                if (status?.apiCallStatus === 'pending') statusColor = 'text-yellow-400';
+                else if (status?.apiCallStatus === 'success') statusColor = 'text-green-400';
+                else if (status?.apiCallStatus === 'error') statusColor = 'text-red-400';
                 return (
                   <div key={agent.id} className="text-[11px] mb-2 border-l-2 border-blue-500 pl-2">
                     <div className="text-white">{agent.emoji} {agent.name}</div>
                     <div className="text-gray-500">ID: {agent.id}</div>
                     <div className="text-gray-500">{agent.provider}/{agent.model}</div>
-                    <div className="text-green-400">{msgs.length} messages in context</div>
+                    <div className="text-cyan-400">
+                      Memory: {MEMORY_VISIBILITY_LABELS[policy.visibility]}
+                      {policy.visibility === 'windowed' && policy.groupWindow !== undefined && ` (${policy.groupWindow})`}
+                    </div>
+                    <div className="text-green-400">
+                      Context: {groupContext.length} msgs in group / {privateContext.length} in private
+                    </div>
+                    <details>
+                      <summary className="cursor-pointer text-gray-500">
+                        {conversationMode === agent.id ? 'Private' : 'Group'} reply context
+                      </summary>
+                      {shownContext.length > 0 ? shownContext.map(msg => (
+                        <div key={msg.id} className="text-gray-400 truncate" title={msg.content}>
+                          <span className={msg.recipient === 'everyone' ? 'text-gray-500' : 'text-pink-400'}>
+                            {msg.sender}→{msg.recipient}:
+                          </span>{' '}
+                          {msg.content}
+                        </div>
+                      )) : <div className="text-gray-600">Empty</div>}
+                    </details>
+                    <div className={statusColor}>
+                      API: {status?.apiCallStatus || 'idle'}
+                      {status?.lastResponseTime !== undefined && ` (${status.lastResponseTime}ms)`}
+                    </div>
+                    {status?.tokenUsage ? (
+                      <div className="text-purple-400">
+                        Tokens: {status.tokenUsage.promptTokens} prompt / {status.tokenUsage.completionTokens} completion ({status.tokenUsage.totalTokens} total)
+                      </div>
+                    ) : (
+                      <div className="text-gray-600">Tokens: not reported yet</div>
+                    )}
+                    {status?.apiCallStatus === 'error' && status.lastError && (
+                      <div className="text-red-400 truncate" title={status.lastError}>{status.lastError}</div>
+                    )}
                   </div>
                 );
               }) : <div className="text-gray-500 text-[11px]">No agents configured</div>}
@@ -403,6 +447,7 @@ ${consoleLog.slice(-20).map(l => `[${l.type.toUpperCase()}] ${l.message}`).join(
                 const time = new Date(event.timestamp).toLocaleTimeString('en-US', { hour12: false });
                 let color = 'text-gray-400';
                 if (event.type === 'api_request_error') color = 'text-red-400';
+                else if (event.type === 'api_request_retry') color = 'text-orange-400';
                 else if (event.type === 'api_request_success') color = 'text-green-400';
                 else if (event.type === 'message_added') color = 'text-blue-400';
                 else if (event.type === 'orchestrator_decision') color = 'text-yellow-400';
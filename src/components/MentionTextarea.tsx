@@ -0,0 +1,110 @@
+import { useRef, useState } from "react";
+import { Textarea, TextareaProps } from "@/components/ui/textarea";
+import { AgentConfig } from "@/types/agent";
+import { MentionQuery, getMentionQuery, getMentionSuggestions, insertMention } from "@/lib/mentions";
+
+interface MentionTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  agents: AgentConfig[];
+  /** Offer "@name" completions; off in private chats, where mentions don't route */
+  mentionsEnabled?: boolean;
+}
+
+/**
+ * Composer textarea that completes "@" mentions of agent names
+ */
+const MentionTextarea = ({ value, onChange, agents, mentionsEnabled = true, onKeyDown, ...props }: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mention, setMention] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mention ? getMentionSuggestions(mention.query, agents) : [];
+  const isOpen = suggestions.length > 0;
+
+  const updateMention = (text: string, caret: number) => {
+    const next = mentionsEnabled ? getMentionQuery(text, caret) : null;
+    setMention(next);
+    if (next?.query !== mention?.query) setActiveIndex(0);
+  };
+
+  const complete = (agent: AgentConfig) => {
+    const textarea = textareaRef.current;
+    if (!mention || !textarea) return;
+    const result = insertMention(value, mention, textarea.selectionStart, agent);
+    onChange(result.text);
+    setMention(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        complete(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative flex-1">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateMention(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMention(value, e.currentTarget.selectionStart)}
+        onBlur={() => setMention(null)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+      {isOpen && (
+        <div
+          role="listbox"
+          className="absolute bottom-full left-0 mb-2 w-64 rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md z-20"
+        >
+          {suggestions.map((agent, index) => (
+            <button
+              key={agent.id}
+              type="button"
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea so its blur doesn't close the list first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => complete(agent)}
+              className={`flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm ${
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+              }`}
+            >
+              <span>{agent.emoji}</span>
+              <span>{agent.name}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
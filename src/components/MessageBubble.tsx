@@ -1,14 +1,71 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, GitBranch, Pencil, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
 interface MessageBubbleProps {
+  /** DOM id, so the message can be scrolled to */
+  id?: string;
   sender: string;
   content: string;
   type: string; // "user" | "barista" | "philosopher" | any custom agent color
   emoji: string;
   isWhisper?: boolean;
   whisperTarget?: string;
+  /** Sent privately by one agent to another during auto conversation */
+  isAgentWhisper?: boolean;
+  /** Names of the agents the message was addressed to with "@" */
+  mentionNames?: string[];
+  /** Reply is still arriving from the provider */
+  isStreaming?: boolean;
+  /** The agent failed to reply; content holds the error message */
+  isError?: boolean;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  /** Start a new branch of the conversation that ends at this message */
+  onBranch?: () => void;
+  /** Ask the agent for a new version of this reply */
+  onRegenerate?: () => void;
+  /** Save an edited version of the user's message */
+  onEdit?: (content: string) => void;
+  onDelete?: () => void;
+  /** Position among the regenerated versions of this reply, when there is more than one */
+  version?: { index: number; count: number };
+  onSelectVersion?: (index: number) => void;
+  isEdited?: boolean;
+  /** Briefly emphasized, e.g. after jumping here from search */
+  isHighlighted?: boolean;
 }
 
-const MessageBubble = ({ sender, content, type, emoji, isWhisper, whisperTarget }: MessageBubbleProps) => {
+const MessageBubble = ({
+  id,
+  sender,
+  content,
+  type,
+  emoji,
+  isWhisper,
+  whisperTarget,
+  isAgentWhisper,
+  mentionNames,
+  isStreaming,
+  isError,
+  onRetry,
+  onDismiss,
+  onBranch,
+  onRegenerate,
+  onEdit,
+  onDelete,
+  version,
+  onSelectVersion,
+  isEdited,
+  isHighlighted,
+}: MessageBubbleProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+
   const getBgColor = () => {
+    if (isError) return "bg-destructive/10 border-destructive/30";
+    if (isAgentWhisper) return "bg-transparent border-dashed border-muted-foreground/40";
     if (type === "user") return "bg-user-light border-user/20";
     if (type === "barista") return "bg-barista-light border-barista/20";
     if (type === "philosopher") return "bg-philosopher-light border-philosopher/20";
@@ -22,20 +79,166 @@ const MessageBubble = ({ sender, content, type, emoji, isWhisper, whisperTarget
     return "text-foreground"; // fallback for custom agents
   };
 
+  const startEditing = () => {
+    setDraft(content);
+    setIsEditing(true);
+  };
+
+  const saveEdit = () => {
+    if (!onEdit || !draft.trim()) return;
+    setIsEditing(false);
+    if (draft.trim() !== content) {
+      onEdit(draft.trim());
+    }
+  };
+
+  const actionClassName =
+    "inline-flex items-center gap-1 text-xs font-normal text-muted-foreground hover:text-foreground";
+  const hasActions = !isEditing && (onBranch || onRegenerate || onEdit || onDelete);
+
   return (
-    <div className={`flex items-start gap-3 animate-fade-in ${type === "user" ? "flex-row-reverse" : ""}`}>
+    <div
+      id={id}
+      className={`group flex items-start gap-3 animate-fade-in rounded-2xl transition-shadow ${type === "user" ? "flex-row-reverse" : ""} ${
+        isHighlighted ? "ring-2 ring-accent ring-offset-4 ring-offset-background" : ""
+      }`}
+    >
       <div className="text-2xl">{emoji}</div>
       <div className={`flex-1 max-w-[80%] ${type === "user" ? "items-end" : ""}`}>
         <div className={`text-sm font-semibold mb-1 ${getTextColor()}`}>
           {sender}
           {isWhisper && whisperTarget && (
             <span className="ml-2 text-xs text-muted-foreground italic">
-              (whispered to {whisperTarget})
+              {isAgentWhisper ? `🤫 whispered to ${whisperTarget}` : `(whispered to ${whisperTarget})`}
+            </span>
+          )}
+          {mentionNames && mentionNames.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-muted-foreground">
+              → {mentionNames.map((name) => `@${name}`).join(", ")}
+            </span>
+          )}
+          {isEdited && (
+            <span className="ml-2 text-xs font-normal text-muted-foreground">(edited)</span>
+          )}
+          {hasActions && (
+            <span className="ml-2 inline-flex gap-2 opacity-0 transition-opacity focus-within:opacity-100 group-hover:opacity-100">
+              {onRegenerate && (
+                <button type="button" onClick={onRegenerate} className={actionClassName} title="Regenerate this reply">
+                  <RefreshCw className="h-3 w-3" />
+                  Regenerate
+                </button>
+              )}
+              {onEdit && (
+                <button type="button" onClick={startEditing} className={actionClassName} title="Edit and re-run the replies">
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </button>
+              )}
+              {onBranch && (
+                <button
+                  type="button"
+                  onClick={onBranch}
+                  className={actionClassName}
+                  title="Branch the conversation from this message"
+                >
+                  <GitBranch className="h-3 w-3" />
+                  Branch
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  type="button"
+                  onClick={onDelete}
+                  className={`${actionClassName} hover:text-destructive`}
+                  title="Delete this message"
+                >
+                  <Trash2 className="h-3 w-3" />
+                  Delete
+                </button>
+              )}
             </span>
           )}
         </div>
         <div className={`rounded-2xl p-4 ${getBgColor()} border shadow-sm`}>
-          <p className="text-sm leading-relaxed whitespace-pre-wrap">{content}</p>
+          {isError && (
+            <p className="text-xs font-semibold text-destructive mb-1">Failed to reply</p>
+          )}
+          {isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  }
+                  if (e.key === "Escape") setIsEditing(false);
+                }}
+                className="min-h-[60px] bg-background text-sm"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} className="h-7">
+                  Cancel
+                </Button>
+                <Button size="sm" onClick={saveEdit} disabled={!draft.trim()} className="h-7">
+                  Save & re-run
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p
+              className={`text-sm leading-relaxed whitespace-pre-wrap ${isError ? "text-destructive" : ""} ${
+                isAgentWhisper ? "italic text-muted-foreground" : ""
+              }`}
+            >
+              {content}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-current opacity-60 animate-pulse" />
+              )}
+            </p>
+          )}
+          {version && version.count > 1 && onSelectVersion && (
+            <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+              <button
+                type="button"
+                onClick={() => onSelectVersion(version.index - 1)}
+                disabled={version.index === 0}
+                className="hover:text-foreground disabled:opacity-40"
+                title="Previous version"
+              >
+                <ChevronLeft className="h-3 w-3" />
+              </button>
+              <span>
+                {version.index + 1} / {version.count}
+              </span>
+              <button
+                type="button"
+                onClick={() => onSelectVersion(version.index + 1)}
+                disabled={version.index === version.count - 1}
+                className="hover:text-foreground disabled:opacity-40"
+                title="Next version"
+              >
+                <ChevronRight className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+          {isError && (onRetry || onDismiss) && (
+            <div className="flex gap-2 mt-2">
+              {onRetry && (
+                <Button variant="outline" size="sm" onClick={onRetry} className="h-7">
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Retry this agent
+                </Button>
+              )}
+              {onDismiss && (
+                <Button variant="ghost" size="sm" onClick={onDismiss} className="h-7">
+                  Dismiss
+                </Button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
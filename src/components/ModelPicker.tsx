@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { AgentConfig, ModelType } from "@/types/agent";
+import { discoverModels, getKnownModels, ModelDiscoveryResult } from "@/lib/modelDiscovery";
+
+interface ModelPickerProps {
+  id: string;
+  agent: AgentConfig;
+  onChange: (model: ModelType) => void;
+}
+
+const SOURCE_LABELS: Record<ModelDiscoveryResult['source'], string> = {
+  live: 'Fetched from provider',
+  cache: 'Cached list',
+  static: 'Built-in list',
+};
+
+/**
+ * Model selector offering the provider's discovered models, with free-text entry
+ * for anything not listed (fine-tunes, new releases, custom endpoints)
+ */
+const ModelPicker = ({ id, agent, onChange }: ModelPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [discovery, setDiscovery] = useState<ModelDiscoveryResult>(() => getKnownModels(agent));
+
+  const loadModels = async (forceRefresh = false) => {
+    setLoading(true);
+    try {
+      setDiscovery(await discoverModels(agent, { forceRefresh }));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (nextOpen) {
+      setSearch('');
+      // Key, provider or URL may have changed since the last lookup
+      void loadModels();
+    }
+  };
+
+  const selectModel = (model: string) => {
+    onChange(model as ModelType);
+    setOpen(false);
+  };
+
+  const customModel = search.trim();
+  const showCustomOption = customModel && !discovery.models.includes(customModel);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          id={id}
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+        >
+          <span className={`truncate ${agent.model ? "" : "text-muted-foreground"}`}>
+            {agent.model || "Select or enter a model"}
+          </span>
+          <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search or type a model ID..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>{loading ? "Loading models..." : "No models found."}</CommandEmpty>
+            {showCustomOption && (
+              <CommandGroup heading="Custom">
+                <CommandItem value={`custom:${customModel}`} onSelect={() => selectModel(customModel)}>
+                  Use "{customModel}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+            <CommandGroup heading={SOURCE_LABELS[discovery.source]}>
+              {discovery.models.map((model) => (
+                <CommandItem key={model} value={model} onSelect={() => selectModel(model)}>
+                  <Check className={`mr-2 h-4 w-4 ${agent.model === model ? "opacity-100" : "opacity-0"}`} />
+                  {model}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+        <div className="flex items-center justify-between gap-2 border-t border-border px-3 py-2 text-xs text-muted-foreground">
+          <span className="truncate" title={discovery.error}>
+            {discovery.error ? `Offline: ${discovery.error}` : SOURCE_LABELS[discovery.source]}
+          </span>
+          <button
+            type="button"
+            onClick={() => void loadModels(true)}
+            disabled={loading}
+            className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50"
+          >
+            {loading ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+            Refresh
+          </button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ModelPicker;
@@ -2,8 +2,11 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import ApiKeySetup from "@/components/ApiKeySetup";
-import { AgentConfig, DEFAULT_AGENTS } from "@/types/agent";
+import { AgentConfig, DEFAULT_AGENTS, KEYLESS_PROVIDERS } from "@/types/agent";
 import { useToast } from "@/hooks/use-toast";
+import { AgentConnectionFailure, checkAgentConnections } from "@/lib/apiClients";
+import ConnectionCheckDialog from "@/components/ConnectionCheckDialog";
+import { savePersistedAgents } from "@/lib/persistedState";
 
 interface OnboardingScreenProps {
   onComplete: (agents: AgentConfig[]) => void;
@@ -15,6 +18,8 @@ const OnboardingScreen = ({ onComplete }: OnboardingScreenProps) => {
     { ...DEFAULT_AGENTS[0], apiKey: '' },
     { ...DEFAULT_AGENTS[1], apiKey: '' },
   ]);
+  const [checkingConnections, setCheckingConnections] = useState(false);
+  const [connectionFailures, setConnectionFailures] = useState<AgentConnectionFailure[]>([]);
 
   const handleAgentChange = (index: number, updatedAgent: AgentConfig) => {
     const newAgents = [...agents];
@@ -22,9 +27,19 @@ const OnboardingScreen = ({ onComplete }: OnboardingScreenProps) => {
     setAgents(newAgents);
   };
 
-  const handleStart = () => {
-    // Validate that all agents have API keys unless provider is Ollama
-    const missingKeys = agents.filter(agent => agent.provider !== 'ollama' && !agent.apiKey.trim());
+  const finishOnboarding = () => {
+    setConnectionFailures([]);
+
+    // Store agents in localStorage
+    savePersistedAgents(agents);
+    localStorage.setItem("coffeehouse-onboarded", "true");
+    
+    onComplete(agents);
+  };
+
+  const handleStart = async () => {
+    // Validate that all agents have API keys unless the provider can run without one
+    const missingKeys = agents.filter(agent => !KEYLESS_PROVIDERS.includes(agent.provider) && !agent.apiKey.trim());
     
     if (missingKeys.length > 0) {
       toast({
@@ -35,6 +50,20 @@ const OnboardingScreen = ({ onComplete }: OnboardingScreenProps) => {
       return;
     }
 
+    // Custom endpoints need a URL and a model ID
+    const missingEndpoints = agents.filter(
+      agent => agent.provider === 'openai-compatible' && (!agent.baseUrl?.trim() || !agent.model.trim())
+    );
+
+    if (missingEndpoints.length > 0) {
+      toast({
+        title: "Missing Endpoint Details",
+        description: "Please provide a base URL and model ID for all OpenAI-compatible agents.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     // Validate that all agents have names
     const missingNames = agents.filter(agent => !agent.name.trim());
     
@@ -47,11 +76,19 @@ const OnboardingScreen = ({ onComplete }: OnboardingScreenProps) => {
       return;
     }
 
-    // Store agents in localStorage
-    localStorage.setItem("coffeehouse-agents", JSON.stringify(agents));
-    localStorage.setItem("coffeehouse-onboarded", "true");
-    
-    onComplete(agents);
+    // Pre-flight: catch bad keys, models and URLs before the first message
+    setCheckingConnections(true);
+    try {
+      const failures = await checkAgentConnections(agents);
+      if (failures.length > 0) {
+        setConnectionFailures(failures);
+        return;
+      }
+    } finally {
+      setCheckingConnections(false);
+    }
+
+    finishOnboarding();
   };
 
   return (
@@ -94,9 +131,15 @@ const OnboardingScreen = ({ onComplete }: OnboardingScreenProps) => {
             onClick={handleStart}
             className="w-full bg-primary hover:bg-primary/90 text-primary-foreground"
             size="lg"
+            disabled={checkingConnections}
           >
-            Enter the Coffeehouse ☕
+            {checkingConnections ? "Checking connections..." : "Enter the Coffeehouse ☕"}
           </Button>
+          <ConnectionCheckDialog
+            failures={connectionFailures}
+            onContinue={finishOnboarding}
+            onCancel={() => setConnectionFailures([])}
+          />
 
           <div className="text-xs text-center space-y-1 text-muted-foreground">
             <p>🔒 Your API keys are stored locally in your browser</p>
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Search } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChatSession } from "@/types/session";
+import { AgentConfig } from "@/types/agent";
+import { MessageSearchIndex, SearchFilters, SearchResult, buildSearchIndex } from "@/lib/messageSearch";
+
+interface SearchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sessions: ChatSession[];
+  onOpenResult: (result: SearchResult) => void;
+}
+
+// Select items can't have an empty value
+const ANY = "any";
+
+const startOfDay = (value: string) => (value ? new Date(`${value}T00:00:00`).getTime() : undefined);
+const endOfDay = (value: string) => (value ? new Date(`${value}T23:59:59.999`).getTime() : undefined);
+
+const HighlightedSnippet = ({ result }: { result: SearchResult }) => {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  result.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(<span key={`t${index}`}>{result.snippet.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={`m${index}`} className="rounded bg-accent/60 text-foreground">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  parts.push(<span key="rest">{result.snippet.slice(cursor)}</span>);
+  return <>{parts}</>;
+};
+
+/**
+ * Full-text search over every message in every session
+ */
+const SearchDialog = ({ open, onOpenChange, sessions, onOpenResult }: SearchDialogProps) => {
+  const [index, setIndex] = useState<MessageSearchIndex | null>(null);
+  const [indexing, setIndexing] = useState(false);
+  const [query, setQuery] = useState("");
+  const [agentId, setAgentId] = useState(ANY);
+  const [sender, setSender] = useState(ANY);
+  const [recipient, setRecipient] = useState(ANY);
+  const [whisper, setWhisper] = useState<NonNullable<SearchFilters["whisper"]>>("any");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIndexing(true);
+    buildSearchIndex(sessions)
+      .then((built) => {
+        if (!cancelled) setIndex(built);
+      })
+      .catch((e) => console.error("Failed to build search index:", e))
+      .finally(() => {
+        if (!cancelled) setIndexing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, sessions]);
+
+  // Agents from every session, once each
+  const agents = useMemo(() => {
+    const byId = new Map<string, AgentConfig>();
+    sessions.forEach((session) => session.agents.forEach((agent) => byId.set(agent.id, agent)));
+    return Array.from(byId.values());
+  }, [sessions]);
+
+  const nameOf = (id: string) => {
+    if (id === "user") return "You";
+    if (id === "everyone") return "Everyone";
+    const agent = agents.find((a) => a.id === id);
+    return agent ? `${agent.emoji} ${agent.name}` : id;
+  };
+
+  const hasFilters = agentId !== ANY || sender !== ANY || recipient !== ANY || whisper !== "any" || fromDate || toDate;
+  const results = useMemo(() => {
+    if (!index || (!query.trim() && !hasFilters)) return [];
+    return index.search(query, {
+      agentId: agentId === ANY ? undefined : agentId,
+      sender: sender === ANY ? undefined : sender,
+      recipient: recipient === ANY ? undefined : recipient,
+      whisper,
+      from: startOfDay(fromDate),
+      to: endOfDay(toDate),
+    });
+  }, [index, query, agentId, sender, recipient, whisper, fromDate, toDate, hasFilters]);
+
+  const participantItems = (extra: Array<{ value: string; label: string }>) => (
+    <>
+      <SelectItem value={ANY}>Anyone</SelectItem>
+      {extra.map((item) => (
+        <SelectItem key={item.value} value={item.value}>{item.label}</SelectItem>
+      ))}
+      {agents.map((agent) => (
+        <SelectItem key={agent.id} value={agent.id}>{agent.emoji} {agent.name}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Search conversations</DialogTitle>
+          <DialogDescription>
+            Searches every session, including private chats.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="What did the Philosopher say about Kant?"
+            className="pl-9"
+          />
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 text-xs">
+          <div className="space-y-1">
+            <Label htmlFor="search-agent">Agent</Label>
+            <Select value={agentId} onValueChange={setAgentId}>
+              <SelectTrigger id="search-agent" className="h-8"><SelectValue /></SelectTrigger>
+              <SelectContent>{participantItems([])}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-sender">Sender</Label>
+            <Select value={sender} onValueChange={setSender}>
+              <SelectTrigger id="search-sender" className="h-8"><SelectValue /></SelectTrigger>
+              <SelectContent>{participantItems([{ value: "user", label: "You" }])}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-recipient">Recipient</Label>
+            <Select value={recipient} onValueChange={setRecipient}>
+              <SelectTrigger id="search-recipient" className="h-8"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {participantItems([{ value: "everyone", label: "Everyone" }, { value: "user", label: "You" }])}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-whisper">Whispers</Label>
+            <Select value={whisper} onValueChange={(value) => setWhisper(value as typeof whisper)}>
+              <SelectTrigger id="search-whisper" className="h-8"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Include whispers</SelectItem>
+                <SelectItem value="only">Whispers only</SelectItem>
+                <SelectItem value="exclude">No whispers</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-from">From</Label>
+            <Input id="search-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="search-to">To</Label>
+            <Input id="search-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} className="h-8" />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto -mx-2 px-2 space-y-2 min-h-[8rem]">
+          {indexing && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Indexing messages...
+            </div>
+          )}
+          {!indexing && (query.trim() || hasFilters) && results.length === 0 && (
+            <p className="text-sm text-muted-foreground">No messages match.</p>
+          )}
+          {results.map((result) => (
+            <button
+              key={`${result.sessionId}:${result.mode}:${result.message.id}`}
+              type="button"
+              onClick={() => onOpenResult(result)}
+              className="w-full text-left rounded-md border border-border p-3 hover:bg-muted transition-colors"
+            >
+              <div className="flex flex-wrap items-center gap-x-2 text-xs text-muted-foreground mb-1">
+                <span className="font-semibold text-foreground">{nameOf(result.message.sender)}</span>
+                {result.message.recipient !== "everyone" && (
+                  <span className="italic">whisper to {nameOf(result.message.recipient)}</span>
+                )}
+                <span>· {result.sessionName}</span>
+                <span>· {result.mode === "group" ? "Group" : `Private: ${nameOf(result.mode)}`}</span>
+                <span className="ml-auto">{new Date(result.message.timestamp).toLocaleString()}</span>
+              </div>
+              <p className="text-sm whitespace-pre-wrap break-words">
+                <HighlightedSnippet result={result} />
+              </p>
+            </button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SearchDialog;
@@ -0,0 +1,251 @@
+import { useRef, useState } from "react";
+import { Archive, ArchiveRestore, Copy, GitBranch, MessageSquare, MoreHorizontal, Pencil, Plus, Search, Trash2, Upload } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChatSession } from "@/types/session";
+
+interface SessionSidebarProps {
+  sessions: ChatSession[];
+  activeSessionId: string;
+  onSelect: (sessionId: string) => void;
+  onCreate: () => void;
+  onSearch: () => void;
+  /** Start a session from a transcript or messages file */
+  onImport: (file: File) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDuplicate: (sessionId: string) => void;
+  onArchiveChange: (sessionId: string, archived: boolean) => void;
+  onDelete: (sessionId: string) => void;
+}
+
+/**
+ * List of chat sessions, most recently active first, with archived sessions kept apart.
+ * Branches are nested under the session they were branched from, so siblings sit side by side.
+ */
+const SessionSidebar = ({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onSearch,
+  onImport,
+  onRename,
+  onDuplicate,
+  onArchiveChange,
+  onDelete,
+}: SessionSidebarProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<ChatSession | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const sorted = [...sessions].sort((a, b) => b.updatedAt - a.updatedAt);
+  const activeSessions = sorted.filter((session) => !session.archived);
+  const archivedSessions = sorted.filter((session) => session.archived);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  // Branches whose parent is deleted, or in the other group, are shown at the top level
+  const getRoots = (group: ChatSession[]) =>
+    group.filter((session) => !session.parentId || !group.some((parent) => parent.id === session.parentId));
+  const getBranches = (group: ChatSession[], parentId: string) =>
+    group.filter((session) => session.parentId === parentId).sort((a, b) => a.createdAt - b.createdAt);
+
+  const renderSession = (session: ChatSession, group: ChatSession[]) => {
+    const branches = getBranches(group, session.id);
+    return (
+      <SidebarMenuItem key={session.id}>
+        {renamingId === session.id ? (
+          <SidebarInput
+            autoFocus
+            value={renameValue}
+            onChange={(e) => setRenameValue(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitRename();
+              if (e.key === "Escape") setRenamingId(null);
+            }}
+            aria-label="Session name"
+          />
+        ) : (
+          <SidebarMenuButton
+            isActive={session.id === activeSessionId}
+            onClick={() => onSelect(session.id)}
+            title={session.name}
+          >
+            {session.parentId ? <GitBranch /> : <MessageSquare />}
+            <span>{session.name}</span>
+          </SidebarMenuButton>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarMenuAction showOnHover>
+              <MoreHorizontal />
+              <span className="sr-only">Session actions</span>
+            </SidebarMenuAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onSelect={() => startRename(session)}>
+              <Pencil className="mr-2 h-4 w-4" />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onDuplicate(session.id)}>
+              <Copy className="mr-2 h-4 w-4" />
+              Duplicate
+            </DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => onArchiveChange(session.id, !session.archived)}>
+              {session.archived ? (
+                <ArchiveRestore className="mr-2 h-4 w-4" />
+              ) : (
+                <Archive className="mr-2 h-4 w-4" />
+              )}
+              {session.archived ? "Unarchive" : "Archive"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={() => setPendingDelete(session)}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {branches.length > 0 && (
+          <SidebarMenuSub className="mr-0 pr-0">
+            {branches.map((branch) => renderSession(branch, group))}
+          </SidebarMenuSub>
+        )}
+      </SidebarMenuItem>
+    );
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader className="border-b border-sidebar-border">
+        <div className="flex items-center justify-between px-2">
+          <span className="text-lg font-semibold">☕ Sessions</span>
+          <button
+            type="button"
+            onClick={onSearch}
+            className="ml-auto mr-3 inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            title="Search all conversations"
+          >
+            <Search className="h-3 w-3" />
+            Search
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+            title="Import a JSON transcript or OpenAI-style messages file"
+          >
+            <Upload className="h-3 w-3" />
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Reset so the same file can be picked again
+              e.target.value = "";
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Chats</SidebarGroupLabel>
+          <SidebarGroupAction onClick={onCreate} title="New session">
+            <Plus />
+            <span className="sr-only">New session</span>
+          </SidebarGroupAction>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {getRoots(activeSessions).map((session) => renderSession(session, activeSessions))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        {archivedSessions.length > 0 && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Archived</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {getRoots(archivedSessions).map((session) => renderSession(session, archivedSessions))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
+      </SidebarContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its messages and agent roster will be permanently deleted. Archive it instead to keep it out of the way.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingDelete) onDelete(pendingDelete.id);
+                setPendingDelete(null);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import ChatInterface from "./ChatInterface";
+import SessionSidebar from "./SessionSidebar";
+import SearchDialog from "./SearchDialog";
+import { AgentConfig } from "@/types/agent";
+import { ChatSession, MessageFocusRequest } from "@/types/session";
+import { ConversationSnapshot } from "@/lib/conversationStateManager";
+import {
+  loadActiveSessionId,
+  loadPersistedAgents,
+  loadPersistedSessions,
+  saveActiveSessionId,
+  savePersistedSessions,
+} from "@/lib/persistedState";
+import {
+  branchSession,
+  createDefaultSession,
+  createImportedSession,
+  createSession,
+  deleteSessionConversations,
+  duplicateSession,
+  getNextSessionName,
+} from "@/lib/sessions";
+import { parseTranscriptFile } from "@/lib/transcriptImport";
+import { SearchResult } from "@/lib/messageSearch";
+
+interface SessionWorkspaceProps {
+  /** Roster for the first session when none exist yet */
+  agents: AgentConfig[];
+}
+
+const mostRecent = (sessions: ChatSession[]) =>
+  [...sessions].sort((a, b) => b.updatedAt - a.updatedAt)[0];
+
+/**
+ * Owns the list of chat sessions and shows the active one next to the session sidebar.
+ * The chat is keyed by session, so switching sessions remounts it with that session's state.
+ */
+const SessionWorkspace = ({ agents }: SessionWorkspaceProps) => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ChatSession[]>(
+    () => loadPersistedSessions() || [createDefaultSession(agents)]
+  );
+  const [activeSessionId, setActiveSessionId] = useState<string>(() => {
+    const storedId = loadActiveSessionId();
+    if (storedId && sessions.some((session) => session.id === storedId)) {
+      return storedId;
+    }
+    return (mostRecent(sessions.filter((session) => !session.archived)) || mostRecent(sessions)).id;
+  });
+
+  const [showSearch, setShowSearch] = useState(false);
+  const [focusRequest, setFocusRequest] = useState<MessageFocusRequest | null>(null);
+
+  useEffect(() => {
+    savePersistedSessions(sessions);
+  }, [sessions]);
+
+  useEffect(() => {
+    saveActiveSessionId(activeSessionId);
+  }, [activeSessionId]);
+
+  const activeSession = sessions.find((session) => session.id === activeSessionId) || sessions[0];
+
+  const updateSession = (sessionId: string, changes: Partial<ChatSession>) => {
+    setSessions((prev) => prev.map((session) => (session.id === sessionId ? { ...session, ...changes } : session)));
+  };
+
+  const handleCreate = () => {
+    // New sessions start from the most recently saved roster
+    const session = createSession(getNextSessionName(sessions), loadPersistedAgents() || activeSession.agents);
+    setSessions((prev) => [...prev, session]);
+    setActiveSessionId(session.id);
+  };
+
+  const handleRename = (sessionId: string, name: string) => {
+    updateSession(sessionId, { name, updatedAt: Date.now() });
+  };
+
+  const handleDuplicate = async (sessionId: string) => {
+    const source = sessions.find((session) => session.id === sessionId);
+    if (!source) return;
+    try {
+      const copy = await duplicateSession(source);
+      setSessions((prev) => [...prev, copy]);
+      setActiveSessionId(copy.id);
+    } catch (e) {
+      console.error("Failed to duplicate session:", e);
+      toast({
+        title: "Could not duplicate session",
+        description: e instanceof Error ? e.message : "The conversation could not be copied.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleBranch = async (snapshot: ConversationSnapshot) => {
+    const parent = activeSession;
+    const siblingCount = sessions.filter((session) => session.parentId === parent.id).length;
+    try {
+      const branch = await branchSession(parent, snapshot, siblingCount);
+      setSessions((prev) => [...prev, branch]);
+      setActiveSessionId(branch.id);
+      toast({
+        title: "Branch created",
+        description: `"${branch.name}" continues from the selected message.`,
+      });
+    } catch (e) {
+      console.error("Failed to branch session:", e);
+      toast({
+        title: "Could not create branch",
+        description: e instanceof Error ? e.message : "The conversation could not be copied.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      // Imported agent IDs must not collide with any agent in any session
+      const existingAgents = [...(loadPersistedAgents() || []), ...sessions.flatMap((session) => session.agents)];
+      const imported = parseTranscriptFile(await file.text(), file.name, existingAgents);
+      const session = await createImportedSession(imported);
+      setSessions((prev) => [...prev, session]);
+      setActiveSessionId(session.id);
+      toast({
+        title: "Transcript imported",
+        description: imported.warnings.length
+          ? imported.warnings.join(" ")
+          : `"${session.name}" is ready to continue.`,
+      });
+    } catch (e) {
+      console.error("Failed to import transcript:", e);
+      toast({
+        title: "Import failed",
+        description: e instanceof Error ? e.message : "The file could not be imported.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    setShowSearch(false);
+    setActiveSessionId(result.sessionId);
+    // A new object each time, so picking the same result again scrolls to it again
+    setFocusRequest({ sessionId: result.sessionId, mode: result.mode, messageId: result.message.id });
+  };
+
+  const handleArchiveChange = (sessionId: string, archived: boolean) => {
+    updateSession(sessionId, { archived });
+  };
+
+  const handleDelete = (sessionId: string) => {
+    deleteSessionConversations(sessionId).catch((e) => console.error("Failed to delete session messages:", e));
+    const remaining = sessions.filter((session) => session.id !== sessionId);
+
+    if (remaining.length === 0) {
+      const session = createSession(getNextSessionName(remaining), loadPersistedAgents() || activeSession.agents);
+      setSessions([session]);
+      setActiveSessionId(session.id);
+      return;
+    }
+
+    setSessions(remaining);
+    if (sessionId === activeSessionId) {
+      setActiveSessionId((mostRecent(remaining.filter((session) => !session.archived)) || mostRecent(remaining)).id);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <SessionSidebar
+        sessions={sessions}
+        activeSessionId={activeSession.id}
+        onSelect={setActiveSessionId}
+        onCreate={handleCreate}
+        onSearch={() => setShowSearch(true)}
+        onImport={handleImport}
+        onRename={handleRename}
+        onDuplicate={handleDuplicate}
+        onArchiveChange={handleArchiveChange}
+        onDelete={handleDelete}
+      />
+      <SidebarInset className="min-w-0">
+        <ChatInterface
+          key={activeSession.id}
+          session={activeSession}
+          onSessionUpdate={(changes) => updateSession(activeSession.id, changes)}
+          onBranch={handleBranch}
+          focusRequest={focusRequest?.sessionId === activeSession.id ? focusRequest : null}
+        />
+      </SidebarInset>
+      <SearchDialog
+        open={showSearch}
+        onOpenChange={setShowSearch}
+        sessions={sessions}
+        onOpenResult={handleOpenSearchResult}
+      />
+    </SidebarProvider>
+  );
+};
+
+export default SessionWorkspace;
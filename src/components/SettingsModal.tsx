@@ -9,21 +9,52 @@ import {
 } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import ApiKeySetup from "./ApiKeySetup";
-import { AgentConfig } from "@/types/agent";
+import { AgentConfig, ApiProvider, KEYLESS_PROVIDERS, PROVIDER_LABELS } from "@/types/agent";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
+import { clearAllSpending, loadSessionBudget, saveSessionBudget } from "@/lib/spendingTracker";
+import {
+  ModelPricing,
+  DEFAULT_MODEL_PRICING,
+  getModelPricing,
+  loadPricingOverrides,
+  savePricingOverrides,
+} from "@/lib/pricing";
+import { RetryPolicy, getRetryPolicy, loadRetryPolicyOverrides, saveRetryPolicyOverrides } from "@/lib/retryPolicy";
+import { clearModelCache } from "@/lib/modelDiscovery";
+import { clearAllConversations } from "@/lib/conversationStore";
+import { clearPersistedSessions, clearQuarantine } from "@/lib/persistedState";
+import { ContextSettings, DEFAULT_CONTEXT_SETTINGS, loadContextSettings, saveContextSettings } from "@/lib/contextBuilder";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AgentConnectionFailure, checkAgentConnections } from "@/lib/apiClients";
+import ConnectionCheckDialog from "./ConnectionCheckDialog";
 
 interface SettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   agents: AgentConfig[];
   onAgentsChange: (agents: AgentConfig[]) => void;
+  /** Session whose budget the Costs tab edits */
+  sessionId: string;
+  onSessionBudgetChange?: (limit: number | null) => void;
 }
 
-const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsModalProps) => {
+/**
+ * The settings that decide whether requests reach the provider
+ */
+const getConnectionFingerprint = (agent: AgentConfig): string =>
+  JSON.stringify([agent.provider, agent.model, agent.apiKey, agent.baseUrl, agent.customHeaders]);
+
+const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange, sessionId, onSessionBudgetChange }: SettingsModalProps) => {
   const { toast } = useToast();
   const [editedAgents, setEditedAgents] = useState<AgentConfig[]>(agents);
+  const [sessionBudgetInput, setSessionBudgetInput] = useState("");
+  const [pricingOverrides, setPricingOverrides] = useState<Record<string, ModelPricing>>({});
+  const [retryOverrides, setRetryOverrides] = useState<Partial<Record<ApiProvider, RetryPolicy>>>({});
+  const [contextSettings, setContextSettings] = useState<ContextSettings>(DEFAULT_CONTEXT_SETTINGS);
+  const [checkingConnections, setCheckingConnections] = useState(false);
+  const [connectionFailures, setConnectionFailures] = useState<AgentConnectionFailure[]>([]);
 
   // Sync editedAgents when modal opens or agents change
   useEffect(() => {
@@ -32,29 +63,100 @@ const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsM
     }
   }, [open, agents]);
 
+  // Reload cost settings each time the modal opens
+  useEffect(() => {
+    if (open) {
+      const budget = loadSessionBudget(sessionId);
+      setSessionBudgetInput(budget !== null ? String(budget) : "");
+      setPricingOverrides(loadPricingOverrides());
+      setRetryOverrides(loadRetryPolicyOverrides());
+      setContextSettings(loadContextSettings());
+    }
+  }, [open, sessionId]);
+
+  const pricedModels = Array.from(new Set(editedAgents.map((agent) => agent.model as string)));
+
+  const handleSessionBudgetChange = (value: string) => {
+    setSessionBudgetInput(value);
+    const parsed = parseFloat(value);
+    const limit = value.trim() === "" || Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+    saveSessionBudget(sessionId, limit);
+    onSessionBudgetChange?.(limit);
+  };
+
+  const handlePricingChange = (model: string, field: keyof ModelPricing, value: string) => {
+    const parsed = parseFloat(value);
+    const current = pricingOverrides[model] || getModelPricing(model);
+    const next = {
+      ...pricingOverrides,
+      [model]: { ...current, [field]: Number.isNaN(parsed) ? 0 : parsed },
+    };
+    setPricingOverrides(next);
+    savePricingOverrides(next);
+  };
+
+  const handleContextSettingsChange = (patch: Partial<ContextSettings>) => {
+    const next = { ...contextSettings, ...patch };
+    setContextSettings(next);
+    saveContextSettings(next);
+  };
+
+  const handleRetryPolicyChange = (provider: ApiProvider, field: keyof RetryPolicy, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    const next = {
+      ...retryOverrides,
+      [provider]: { ...getRetryPolicy(provider), ...retryOverrides[provider], [field]: parsed },
+    };
+    setRetryOverrides(next);
+    saveRetryPolicyOverrides(next);
+  };
+
+  const handleResetPricing = () => {
+    setPricingOverrides({});
+    savePricingOverrides({});
+  };
+
   const handleClearConversations = () => {
-    localStorage.removeItem("coffeehouse-conversations");
-    localStorage.removeItem("coffeehouse-conversation-mode");
+    clearAllSpending();
+    clearAllConversations().catch((e) => console.error("Failed to clear conversations:", e));
     toast({
       title: "Conversations Cleared",
-      description: "Refresh the page to start fresh. All chat history has been deleted.",
+      description: "Refresh the page to start fresh. Chat history in every session has been deleted.",
     });
   };
 
   const handleResetOnboarding = () => {
     localStorage.removeItem("coffeehouse-onboarded");
     localStorage.removeItem("coffeehouse-agents");
-    localStorage.removeItem("coffeehouse-conversations");
-    localStorage.removeItem("coffeehouse-conversation-mode");
+    clearAllSpending();
+    clearAllConversations().catch((e) => console.error("Failed to clear conversations:", e));
+    clearPersistedSessions();
+    clearModelCache();
+    clearQuarantine();
     toast({
       title: "Reset Complete",
       description: "Refresh the page to see the onboarding screen again.",
     });
   };
 
-  const handleSave = () => {
-    // Validate that all agents have API keys except Ollama
-    const missingKeys = editedAgents.filter(agent => agent.provider !== 'ollama' && !agent.apiKey.trim());
+  const finishSave = () => {
+    setConnectionFailures([]);
+    onAgentsChange(editedAgents);
+    // Persist local mode settings if present
+    try {
+      // no-op; values already saved via onChange handlers below
+    } catch {}
+    toast({
+      title: "Settings Saved",
+      description: "Your agent configurations have been updated.",
+    });
+    onOpenChange(false);
+  };
+
+  const handleSave = async () => {
+    // Validate that all agents have API keys unless the provider can run without one
+    const missingKeys = editedAgents.filter(agent => !KEYLESS_PROVIDERS.includes(agent.provider) && !agent.apiKey.trim());
     
     if (missingKeys.length > 0) {
       toast({
@@ -65,16 +167,39 @@ const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsM
       return;
     }
 
-    onAgentsChange(editedAgents);
-    // Persist local mode settings if present
-    try {
-      // no-op; values already saved via onChange handlers below
-    } catch {}
-    toast({
-      title: "Settings Saved",
-      description: "Your agent configurations have been updated.",
+    const missingEndpoints = editedAgents.filter(
+      agent => agent.provider === 'openai-compatible' && (!agent.baseUrl?.trim() || !agent.model.trim())
+    );
+
+    if (missingEndpoints.length > 0) {
+      toast({
+        title: "Missing Endpoint Details",
+        description: "Please provide a base URL and model ID for all OpenAI-compatible agents.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Pre-flight: only re-test agents whose connection details changed
+    const changedAgents = editedAgents.filter((agent) => {
+      const original = agents.find((a) => a.id === agent.id);
+      return !original || getConnectionFingerprint(original) !== getConnectionFingerprint(agent);
     });
-    onOpenChange(false);
+
+    if (changedAgents.length > 0) {
+      setCheckingConnections(true);
+      try {
+        const failures = await checkAgentConnections(changedAgents);
+        if (failures.length > 0) {
+          setConnectionFailures(failures);
+          return;
+        }
+      } finally {
+        setCheckingConnections(false);
+      }
+    }
+
+    finishSave();
   };
 
   const handleAgentChange = (index: number, updatedAgent: AgentConfig) => {
@@ -94,8 +219,9 @@ const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsM
         </DialogHeader>
         
         <Tabs defaultValue="agents" className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="agents">Agents</TabsTrigger>
+            <TabsTrigger value="costs">Costs</TabsTrigger>
             <TabsTrigger value="general">General</TabsTrigger>
           </TabsList>
           
@@ -109,11 +235,77 @@ const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsM
                 />
               ))}
             </div>
-            <Button onClick={handleSave} className="w-full">
-              Save Changes
+            <Button onClick={handleSave} className="w-full" disabled={checkingConnections}>
+              {checkingConnections ? "Checking connections..." : "Save Changes"}
             </Button>
+            <ConnectionCheckDialog
+              failures={connectionFailures}
+              onContinue={finishSave}
+              onCancel={() => setConnectionFailures([])}
+            />
           </TabsContent>
           
+          <TabsContent value="costs" className="space-y-4 py-4">
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Session Budget</h3>
+              <Input
+                id="session-budget"
+                type="number"
+                min={0}
+                step={0.01}
+                placeholder="No limit"
+                value={sessionBudgetInput}
+                onChange={(e) => handleSessionBudgetChange(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Once the estimated cost of this session reaches the limit, sending is blocked and auto conversation pauses.
+                Per-agent limits are set on each agent.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Pricing (USD per 1M tokens)</h3>
+                <Button variant="ghost" size="sm" onClick={handleResetPricing}>
+                  Reset to defaults
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {pricedModels.map((model) => {
+                  const pricing = pricingOverrides[model] || getModelPricing(model);
+                  const isCustom = !!pricingOverrides[model] || !(model in DEFAULT_MODEL_PRICING);
+                  return (
+                    <div key={model} className="grid grid-cols-[1fr_110px_110px] items-center gap-2">
+                      <span className="text-sm truncate" title={model}>
+                        {model}
+                        {isCustom && <span className="ml-1 text-xs text-muted-foreground">(custom)</span>}
+                      </span>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={pricing.inputPerMillion}
+                        onChange={(e) => handlePricingChange(model, "inputPerMillion", e.target.value)}
+                        title="Input price per 1M tokens"
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.01}
+                        value={pricing.outputPerMillion}
+                        onChange={(e) => handlePricingChange(model, "outputPerMillion", e.target.value)}
+                        title="Output price per 1M tokens"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Input / output prices for the models your agents use. Costs are estimates from reported token usage.
+              </p>
+            </div>
+          </TabsContent>
+
           <TabsContent value="general" className="space-y-4 py-4">
             <div className="space-y-2">
               <h3 className="text-sm font-semibold">About</h3>
@@ -152,6 +344,86 @@ const SettingsModal = ({ open, onOpenChange, agents, onAgentsChange }: SettingsM
               </div>
             </div>
 
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Context</h3>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label htmlFor="context-max-tokens" className="text-xs text-muted-foreground">Max prompt tokens</label>
+                  <Input
+                    id="context-max-tokens"
+                    type="number"
+                    min={0}
+                    step={500}
+                    value={contextSettings.maxContextTokens ?? ""}
+                    onChange={(e) => {
+                      const parsed = parseInt(e.target.value, 10);
+                      handleContextSettingsChange({ maxContextTokens: Number.isNaN(parsed) || parsed <= 0 ? null : parsed });
+                    }}
+                    placeholder="Model window"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="context-summarizer" className="text-xs text-muted-foreground">Summarizer</label>
+                  <Select
+                    value={contextSettings.summarizer}
+                    onValueChange={(value) => handleContextSettingsChange({ summarizer: value })}
+                  >
+                    <SelectTrigger id="context-summarizer">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="self">Each agent summarizes for itself</SelectItem>
+                      {editedAgents.map((agent) => (
+                        <SelectItem key={agent.id} value={agent.id}>
+                          {agent.emoji} {agent.name}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value="off">Off (drop older messages)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Recent messages are always sent in full. When a conversation outgrows this limit or the model's context window,
+                older messages are folded into a rolling summary.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Retries</h3>
+              <div className="grid grid-cols-[1fr_100px_120px] gap-2 text-xs text-muted-foreground">
+                <span>Provider</span>
+                <span>Max retries</span>
+                <span>Base delay (ms)</span>
+              </div>
+              {(Object.keys(PROVIDER_LABELS) as ApiProvider[]).map((provider) => {
+                const policy = { ...getRetryPolicy(provider), ...retryOverrides[provider] };
+                return (
+                  <div key={provider} className="grid grid-cols-[1fr_100px_120px] items-center gap-2">
+                    <span className="text-sm">{PROVIDER_LABELS[provider]}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      step={1}
+                      value={policy.maxRetries}
+                      onChange={(e) => handleRetryPolicyChange(provider, "maxRetries", e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={100}
+                      value={policy.baseDelayMs}
+                      onChange={(e) => handleRetryPolicyChange(provider, "baseDelayMs", e.target.value)}
+                    />
+                  </div>
+                );
+              })}
+              <p className="text-xs text-muted-foreground">
+                Timeouts, rate limits (429) and server errors (5xx) are retried with exponential backoff, honouring Retry-After.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <h3 className="text-sm font-semibold">Privacy</h3>
               <p className="text-sm text-muted-foreground">
@@ -0,0 +1,78 @@
+import { Wallet } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AgentConfig } from "@/types/agent";
+import { ConversationMode } from "@/lib/conversationStateManager";
+import { SpendingTracker } from "@/lib/spendingTracker";
+import { formatCost } from "@/lib/pricing";
+
+interface SpendingSummaryProps {
+  tracker: SpendingTracker;
+  agents: AgentConfig[];
+  conversationMode: ConversationMode;
+  sessionBudget: number | null;
+}
+
+const SpendingSummary = ({ tracker, agents, conversationMode, sessionBudget }: SpendingSummaryProps) => {
+  const sessionTotal = tracker.getSessionTotal();
+  const overBudget = sessionBudget !== null && sessionTotal >= sessionBudget;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={`text-xs px-3 py-1 rounded-full border inline-flex items-center gap-1 ${
+            overBudget
+              ? "bg-destructive/10 text-destructive border-destructive/30"
+              : "bg-muted text-muted-foreground border-border"
+          }`}
+          title="Estimated spending"
+        >
+          <Wallet className="h-3 w-3" />
+          {formatCost(sessionTotal)}
+          {sessionBudget !== null && ` / ${formatCost(sessionBudget)}`}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 text-sm space-y-3">
+        <div>
+          <h4 className="font-semibold">Estimated spending</h4>
+          <p className="text-xs text-muted-foreground">
+            Based on reported token usage and the pricing table in Settings.
+          </p>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span>Session total</span>
+            <span className={overBudget ? "text-destructive font-medium" : ""}>
+              {formatCost(sessionTotal)}
+              {sessionBudget !== null && ` of ${formatCost(sessionBudget)}`}
+            </span>
+          </div>
+          <div className="flex justify-between text-muted-foreground">
+            <span>{conversationMode === 'group' ? 'Group chat' : 'This private chat'}</span>
+            <span>{formatCost(tracker.getConversationTotal(conversationMode))}</span>
+          </div>
+        </div>
+
+        <div className="space-y-1 border-t border-border pt-2">
+          {agents.map((agent) => {
+            const agentTotal = tracker.getAgentTotal(agent.id);
+            const agentOverBudget = agent.budgetLimit !== undefined && agentTotal >= agent.budgetLimit;
+            return (
+              <div key={agent.id} className="flex justify-between">
+                <span>{agent.emoji} {agent.name}</span>
+                <span className={agentOverBudget ? "text-destructive font-medium" : "text-muted-foreground"}>
+                  {formatCost(agentTotal)}
+                  {agent.budgetLimit !== undefined && ` of ${formatCost(agent.budgetLimit)}`}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SpendingSummary;
@@ -0,0 +1,101 @@
+import { Flag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import { StopConditions } from "@/types/session";
+
+interface StopConditionsPickerProps {
+  conditions: StopConditions;
+  onChange: (conditions: StopConditions) => void;
+}
+
+type NumericCondition = "repetitionWindow" | "maxMinutes" | "maxTokens" | "maxCost";
+
+const NUMERIC_FIELDS: Array<{ key: NumericCondition; label: string; placeholder: string; min: number; step: number }> = [
+  { key: "repetitionWindow", label: "Stop when the last N replies repeat each other", placeholder: "Off", min: 2, step: 1 },
+  { key: "maxMinutes", label: "Time limit (minutes)", placeholder: "None", min: 1, step: 1 },
+  { key: "maxTokens", label: "Token cap", placeholder: "None", min: 1000, step: 1000 },
+  { key: "maxCost", label: "Cost cap ($)", placeholder: "None", min: 0.01, step: 0.01 },
+];
+
+/**
+ * Sets the conditions, besides the round limit, that end auto conversation in this session
+ */
+const StopConditionsPicker = ({ conditions, onChange }: StopConditionsPickerProps) => {
+  const activeCount = [
+    conditions.keyword?.trim(),
+    conditions.endSignal,
+    ...NUMERIC_FIELDS.map((field) => conditions[field.key]),
+  ].filter(Boolean).length;
+
+  const setNumber = (field: (typeof NUMERIC_FIELDS)[number], value: string) => {
+    const parsed = field.step < 1 ? parseFloat(value) : parseInt(value, 10);
+    const next = { ...conditions };
+    // Zero is kept so "0.5" can be typed; it doesn't apply until raised
+    if (value.trim() === "" || Number.isNaN(parsed) || parsed < 0) {
+      delete next[field.key];
+    } else {
+      next[field.key] = parsed;
+    }
+    onChange(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-2 text-muted-foreground" title="Stop conditions">
+          <Flag className="h-4 w-4" />
+          <span className="hidden lg:inline">{activeCount > 0 ? `${activeCount} stop condition(s)` : "Stop conditions"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="stop-keyword">Stop when a reply says</Label>
+          <Input
+            id="stop-keyword"
+            value={conditions.keyword ?? ""}
+            placeholder="Keyword or phrase"
+            onChange={(e) => onChange({ ...conditions, keyword: e.target.value || undefined })}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="stop-end-signal" className="text-sm font-normal">
+            Agents may end the conversation
+          </Label>
+          <Switch
+            id="stop-end-signal"
+            checked={conditions.endSignal ?? false}
+            onCheckedChange={(checked) => onChange({ ...conditions, endSignal: checked || undefined })}
+          />
+        </div>
+
+        {NUMERIC_FIELDS.map((field) => (
+          <div key={field.key} className="flex items-center justify-between gap-2">
+            <Label htmlFor={`stop-${field.key}`} className="text-sm font-normal">
+              {field.label}
+            </Label>
+            <Input
+              id={`stop-${field.key}`}
+              type="number"
+              min={field.min}
+              step={field.step}
+              value={conditions[field.key] ?? ""}
+              placeholder={field.placeholder}
+              onChange={(e) => setNumber(field, e.target.value)}
+              className="h-8 w-24"
+            />
+          </div>
+        ))}
+
+        <p className="text-xs text-muted-foreground">
+          The round limit still applies. Time, tokens and cost count from when Start Auto is pressed.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StopConditionsPicker;
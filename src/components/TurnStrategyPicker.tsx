@@ -0,0 +1,160 @@
+import { Shuffle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { AgentConfig } from "@/types/agent";
+import { TurnStrategyId, TurnStrategySettings } from "@/types/session";
+import { TURN_STRATEGIES, getTurnWeight } from "@/lib/turnStrategies";
+
+// Select items can't have an empty value
+const NO_MODERATOR = "none";
+
+interface WhisperSettings {
+  agentWhispers: boolean;
+  observeWhispers: boolean;
+}
+
+interface TurnStrategyPickerProps {
+  settings: TurnStrategySettings;
+  agents: AgentConfig[];
+  onChange: (settings: TurnStrategySettings) => void;
+  whispers: WhisperSettings;
+  onWhispersChange: (changes: Partial<WhisperSettings>) => void;
+}
+
+/**
+ * Chooses how auto conversation picks the next speaker in this session
+ */
+const TurnStrategyPicker = ({ settings, agents, onChange, whispers, onWhispersChange }: TurnStrategyPickerProps) => {
+  const strategy = TURN_STRATEGIES[settings.strategy];
+  const moderator = agents.find((agent) => agent.id === settings.moderatorId);
+
+  const setWeight = (agentId: string, value: string) => {
+    const parsed = parseFloat(value);
+    const weights = { ...settings.weights };
+    if (value.trim() === "" || Number.isNaN(parsed) || parsed < 0) {
+      delete weights[agentId];
+    } else {
+      weights[agentId] = parsed;
+    }
+    onChange({ ...settings, weights });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-2 text-muted-foreground" title="Turn order">
+          <Shuffle className="h-4 w-4" />
+          <span className="hidden lg:inline">{moderator ? `Moderated by ${moderator.name}` : strategy.label}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="turn-moderator">Moderator</Label>
+          <Select
+            value={moderator ? moderator.id : NO_MODERATOR}
+            onValueChange={(value) => onChange({ ...settings, moderatorId: value === NO_MODERATOR ? undefined : value })}
+          >
+            <SelectTrigger id="turn-moderator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_MODERATOR}>None</SelectItem>
+              {agents.map((agent) => (
+                <SelectItem key={agent.id} value={agent.id}>
+                  {agent.emoji} {agent.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {moderator
+              ? `${moderator.name} picks each speaker, may steer them, and can end the conversation. It doesn't speak itself; the turn order below is used when its answer can't be.`
+              : "Let one agent, ideally on a cheap model, choose who speaks next."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="turn-strategy">{moderator ? "Fallback turn order" : "Turn order"}</Label>
+          <Select
+            value={settings.strategy}
+            onValueChange={(value: TurnStrategyId) => onChange({ ...settings, strategy: value })}
+          >
+            <SelectTrigger id="turn-strategy">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(TURN_STRATEGIES).map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{strategy.description}</p>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="turn-repeats" className="text-sm font-normal">
+            Agents may speak more than once a round
+          </Label>
+          <Switch
+            id="turn-repeats"
+            checked={settings.allowRepeats ?? false}
+            onCheckedChange={(checked) => onChange({ ...settings, allowRepeats: checked })}
+          />
+        </div>
+
+        {settings.strategy === "weighted" && (
+          <div className="space-y-2">
+            <Label>Talkativeness</Label>
+            {agents.map((agent) => (
+              <div key={agent.id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate">
+                  {agent.emoji} {agent.name}
+                </span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={settings.weights?.[agent.id] ?? ""}
+                  placeholder={String(getTurnWeight(settings, agent.id))}
+                  onChange={(e) => setWeight(agent.id, e.target.value)}
+                  className="h-8 w-20"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t border-border pt-4">
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="agent-whispers" className="text-sm font-normal">
+              Agents may whisper to each other
+            </Label>
+            <Switch
+              id="agent-whispers"
+              checked={whispers.agentWhispers}
+              onCheckedChange={(checked) => onWhispersChange({ agentWhispers: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="observe-whispers" className="text-sm font-normal">
+              Show me their whispers
+            </Label>
+            <Switch
+              id="observe-whispers"
+              checked={whispers.observeWhispers}
+              onCheckedChange={(checked) => onWhispersChange({ observeWhispers: checked })}
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TurnStrategyPicker;
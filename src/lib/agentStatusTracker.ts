@@ -0,0 +1,86 @@
+// Aggregates API debug events into per-agent status for the debug panel
+
+import { debugEvents } from './debugEventEmitter';
+import {
+  AgentStatus,
+  DebugEvent,
+  ApiRequestStartEvent,
+  ApiRequestSuccessEvent,
+  ApiRequestErrorEvent,
+} from '@/types/debug';
+
+class AgentStatusTracker {
+  private statuses: Map<string, AgentStatus> = new Map();
+
+  constructor() {
+    debugEvents.subscribe((event) => this.handleEvent(event));
+  }
+
+  getStatus(agentId: string): AgentStatus | undefined {
+    return this.statuses.get(agentId);
+  }
+
+  getAllStatuses(): AgentStatus[] {
+    return Array.from(this.statuses.values());
+  }
+
+  reset(): void {
+    this.statuses.clear();
+  }
+
+  private handleEvent(event: DebugEvent): void {
+    switch (event.type) {
+      case 'api_request_start': {
+        const data = event.data as ApiRequestStartEvent;
+        const existing = this.statuses.get(data.agentId);
+        this.statuses.set(data.agentId, {
+          ...existing,
+          id: data.agentId,
+          name: data.agentName,
+          model: data.model,
+          provider: data.provider,
+          apiCallStatus: 'pending',
+        });
+        break;
+      }
+      case 'api_request_success': {
+        const data = event.data as ApiRequestSuccessEvent;
+        const existing = this.statuses.get(data.agentId);
+        if (!existing) return;
+
+        const totals = existing.tokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        this.statuses.set(data.agentId, {
+          ...existing,
+          apiCallStatus: 'success',
+          lastResponseTime: data.responseTime,
+          lastError: undefined,
+          tokenUsage: data.tokenUsage
+            ? {
+                promptTokens: totals.promptTokens + data.tokenUsage.promptTokens,
+                completionTokens: totals.completionTokens + data.tokenUsage.completionTokens,
+                totalTokens: totals.totalTokens + data.tokenUsage.totalTokens,
+              }
+            : existing.tokenUsage,
+        });
+        break;
+      }
+      case 'api_request_error': {
+        const data = event.data as ApiRequestErrorEvent;
+        const existing = this.statuses.get(data.agentId);
+        if (!existing) return;
+
+        this.statuses.set(data.agentId, {
+          ...existing,
+          // A cancelled request is not a failure of the agent
+          apiCallStatus: data.cancelled ? 'idle' : 'error',
+          lastResponseTime: data.responseTime,
+          lastError: data.cancelled ? existing.lastError : data.error,
+        });
+        break;
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const agentStatusTracker = new AgentStatusTracker();
@@ -1,9 +1,14 @@
-import { AgentConfig, Message } from '@/types/agent';
+import { AgentConfig, Message, GenerationSettings, TokenUsage, DEFAULT_GENERATION_SETTINGS } from '@/types/agent';
 import { debugEvents } from './debugEventEmitter';
+import { estimateCost } from './pricing';
+import { estimateTokenCount } from './tokens';
+import { getRetryPolicy, getBackoffDelay, parseRetryAfter, sleep } from './retryPolicy';
+import { isMessageVisibleToAgent } from './conversationStateManager';
 import {
   ApiRequestStartEvent,
   ApiRequestSuccessEvent,
   ApiRequestErrorEvent,
+  ApiRequestRetryEvent,
 } from '@/types/debug';
 
 interface ApiMessage {
@@ -11,13 +16,103 @@ interface ApiMessage {
   content: string;
 }
 
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+interface GoogleUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface OpenAIStreamChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+  usage?: OpenAIUsage | null;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type?: string; text?: string };
+  message?: { usage?: { input_tokens?: number; output_tokens?: number } };
+  usage?: { output_tokens?: number };
+}
+
+interface GoogleStreamChunk {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+  usageMetadata?: GoogleUsageMetadata;
+}
+
+interface OllamaStreamChunk {
+  message?: { content?: string };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * Reply text plus the token counts the provider reported, when it reported any
+ */
+export interface AgentResponse {
+  content: string;
+  usage?: TokenUsage;
+  /** Estimated USD cost, filled in by callAgent */
+  cost?: number;
+  /** Tokens billed, estimated when the provider reported none; filled in by callAgent */
+  tokens?: number;
+}
+
+export interface CallAgentOptions {
+  /**
+   * Receives the accumulated reply text each time a new chunk arrives.
+   * When set, providers are called in streaming mode.
+   */
+  onPartial?: (partialText: string) => void;
+  /** Aborts the underlying fetch (and any in-progress stream) when signalled */
+  signal?: AbortSignal;
+  /** Rolling summary of older turns that were left out of `messages`, added to the system prompt */
+  contextSummary?: string;
+  /** Direction for this reply only, e.g. from a moderator, added to the system prompt */
+  nudge?: string;
+  /** Extra rules for this reply, e.g. how to whisper, added to the system prompt */
+  instructions?: string;
+  /** Agents in the conversation, to name who whispered to this one */
+  participants?: AgentConfig[];
+}
+
 export class ApiError extends Error {
-  constructor(message: string, public statusCode?: number) {
+  constructor(message: string, public statusCode?: number, public retryAfterMs?: number) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
+/**
+ * True when the error was raised because the request's AbortSignal fired
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Timeouts, rate limits, server errors and network failures are worth retrying.
+ * Other API errors (bad key, bad request, empty content) will fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+
+  if (error instanceof ApiError) {
+    const status = error.statusCode;
+    return status === 408 || status === 429 || (status !== undefined && status >= 500);
+  }
+
+  // fetch rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError;
+}
+
 function getLocalModeConfig(): { enabled: boolean; baseUrl?: string } {
   try {
     if (typeof window === 'undefined') return { enabled: false };
@@ -29,23 +124,74 @@ function getLocalModeConfig(): { enabled: boolean; baseUrl?: string } {
   }
 }
 
-function convertMessagesToApiFormat(messages: Message[], agentId: string): ApiMessage[] {
+function createTokenUsage(promptTokens?: number, completionTokens?: number, totalTokens?: number): TokenUsage | undefined {
+  if (promptTokens === undefined && completionTokens === undefined && totalTokens === undefined) {
+    return undefined;
+  }
+  const prompt = promptTokens ?? 0;
+  const completion = completionTokens ?? 0;
+  return {
+    promptTokens: prompt,
+    completionTokens: completion,
+    totalTokens: totalTokens ?? prompt + completion,
+  };
+}
+
+function parseOpenAIUsage(usage?: OpenAIUsage | null): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return createTokenUsage(usage.prompt_tokens, usage.completion_tokens, usage.total_tokens);
+}
+
+function parseGoogleUsage(usage?: GoogleUsageMetadata): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return createTokenUsage(usage.promptTokenCount, usage.candidatesTokenCount, usage.totalTokenCount);
+}
+
+function resolveGenerationSettings(agent: AgentConfig): GenerationSettings {
+  const settings = { ...DEFAULT_GENERATION_SETTINGS, ...agent.generation };
+  // Blank entries come from the editor; empty stop lists are rejected by some providers
+  const stopSequences = settings.stopSequences?.filter(stop => stop.length > 0);
+  settings.stopSequences = stopSequences && stopSequences.length > 0 ? stopSequences : undefined;
+  return settings;
+}
+
+/**
+ * Generation parameters in the OpenAI chat completions shape (also used by xAI and the HuggingFace router).
+ * Undefined values are dropped by JSON.stringify, leaving the provider default in place.
+ */
+function toOpenAIGenerationParams(settings: GenerationSettings) {
+  return {
+    max_tokens: settings.maxOutputTokens,
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    stop: settings.stopSequences,
+    presence_penalty: settings.presencePenalty,
+    frequency_penalty: settings.frequencyPenalty,
+    seed: settings.seed,
+  };
+}
+
+/**
+ * Spell out what the message's structured fields say about this agent: a whisper from another
+ * agent is private and names its sender, a mention means the agent was asked directly
+ */
+function markForRecipient(msg: Message, agentId: string, participants: AgentConfig[]): string {
+  if (msg.recipient === agentId && msg.sender !== 'user' && msg.sender !== agentId) {
+    const sender = participants.find((agent) => agent.id === msg.sender)?.name || 'another agent';
+    return `(Whispered to you by ${sender}; nobody else saw this) ${msg.content}`;
+  }
+  return msg.mentions?.includes(agentId) ? `(Addressed to you) ${msg.content}` : msg.content;
+}
+
+function convertMessagesToApiFormat(messages: Message[], agentId: string, participants: AgentConfig[] = []): ApiMessage[] {
   const filtered = messages
-    .filter(msg => {
-      // Include messages where:
-      // 1. This agent is the recipient (messages TO this agent)
-      // 2. This agent is the sender (messages FROM this agent - preserves context)
-      // 3. Message is to everyone (group chat messages)
-      return msg.recipient === 'everyone' ||
-             msg.recipient === agentId ||
-             msg.sender === agentId;
-    })
-    .map(msg => ({
+    .filter(msg => isMessageVisibleToAgent(msg, agentId))
+    .map((msg): ApiMessage => ({
       // Messages from THIS agent are 'assistant' messages
       // Messages from the user OR other agents are 'user' messages
       // This ensures proper conversation flow for the API
       role: msg.sender === agentId ? 'assistant' : 'user',
-      content: msg.content,
+      content: markForRecipient(msg, agentId, participants),
     }));
 
   // Check for consecutive assistant messages (API violation)
@@ -63,16 +209,98 @@ function convertMessagesToApiFormat(messages: Message[], agentId: string): ApiMe
   return filtered;
 }
 
-export async function callOpenAI(
+/**
+ * Reads a streaming response body line by line.
+ * Used directly for newline-delimited JSON (Ollama) and by the SSE reader below.
+ */
+async function readResponseLines(
+  response: Response,
+  onLine: (line: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new ApiError('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(line => {
+      if (line.trim()) onLine(line.trim());
+    });
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Reads a Server-Sent Events response and passes each parsed `data:` payload on.
+ * The OpenAI-style `[DONE]` terminator is skipped.
+ */
+async function readServerSentEvents<T>(
+  response: Response,
+  onData: (data: T) => void
+): Promise<void> {
+  await readResponseLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+
+    try {
+      onData(JSON.parse(payload));
+    } catch {
+      console.warn('[API Debug] Skipping malformed stream chunk:', payload);
+    }
+  });
+}
+
+/**
+ * Accumulates text from an OpenAI-compatible chat completions stream
+ * (OpenAI, xAI and the HuggingFace proxy all use this shape).
+ * Usage arrives in a final chunk with no choices when `stream_options.include_usage` is set.
+ */
+async function readOpenAIStyleStream(
+  response: Response,
+  onPartial: (partialText: string) => void
+): Promise<AgentResponse> {
+  let text = '';
+  let usage: TokenUsage | undefined;
+  await readServerSentEvents<OpenAIStreamChunk>(response, chunk => {
+    usage = parseOpenAIUsage(chunk.usage) ?? usage;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (typeof delta === 'string' && delta.length > 0) {
+      text += delta;
+      onPartial(text);
+    }
+  });
+  return { content: text, usage };
+}
+
+/**
+ * Shared request/response handling for OpenAI-style chat completions endpoints.
+ * OpenAI, xAI and user-configured OpenAI-compatible servers all go through here.
+ */
+async function callChatCompletions(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
+  messages: Message[],
+  options: CallAgentOptions,
+  endpoint: { url: string; headers: Record<string, string>; label: string }
+): Promise<AgentResponse> {
+  const apiMessages = convertMessagesToApiFormat(messages, agent.id, options.participants);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+  const response = await fetch(endpoint.url, {
     method: 'POST',
+    signal: options.signal,
     headers: {
-      'Authorization': `Bearer ${agent.apiKey}`,
+      ...endpoint.headers,
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
@@ -81,45 +309,128 @@ export async function callOpenAI(
         { role: 'system', content: agent.personality },
         ...apiMessages,
       ],
-      max_tokens: 150,
-      temperature: 0.9,
+      ...toOpenAIGenerationParams(resolveGenerationSettings(agent)),
+      stream: !!options.onPartial,
+      stream_options: options.onPartial ? { include_usage: true } : undefined,
     }),
   });
 
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
     throw new ApiError(
-      errorData.error?.message || `OpenAI API error: ${response.status}`,
-      response.status
+      errorData.error?.message || `${endpoint.label} API error: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
+  if (options.onPartial) {
+    const streamed = await readOpenAIStyleStream(response, options.onPartial);
+    if (streamed.content.trim().length === 0) {
+      throw new ApiError(`${endpoint.label} API returned empty text content`);
+    }
+    return streamed;
+  }
+
   const data = await response.json();
 
   // Validate response has content
   if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-    throw new ApiError('OpenAI API returned empty response');
+    throw new ApiError(`${endpoint.label} API returned empty response`);
   }
 
   const content = data.choices[0].message.content;
   if (!content || typeof content !== 'string' || content.trim().length === 0) {
-    throw new ApiError('OpenAI API returned empty text content');
+    throw new ApiError(`${endpoint.label} API returned empty text content`);
+  }
+
+  return { content, usage: parseOpenAIUsage(data.usage) };
+}
+
+export async function callOpenAI(
+  agent: AgentConfig,
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  return callChatCompletions(agent, messages, options, {
+    url: 'https://api.openai.com/v1/chat/completions',
+    headers: { 'Authorization': `Bearer ${agent.apiKey}` },
+    label: 'OpenAI',
+  });
+}
+
+/**
+ * Resolve the chat completions URL for a custom endpoint.
+ * A base URL like `http://localhost:1234/v1` gets `/chat/completions` appended;
+ * a full URL (e.g. an Azure deployment with `?api-version=`) is used as-is.
+ */
+function resolveChatCompletionsUrl(baseUrl: string): string {
+  const url = new URL(baseUrl.trim());
+  if (!url.pathname.replace(/\/$/, '').endsWith('/chat/completions')) {
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/chat/completions`;
+  }
+  return url.toString();
+}
+
+/**
+ * Auth and custom headers for an OpenAI-compatible endpoint.
+ * The API key is optional: local servers need none, and Azure takes its key as an `api-key` custom header.
+ */
+export function getOpenAICompatibleHeaders(agent: AgentConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (agent.apiKey?.trim()) {
+    headers['Authorization'] = `Bearer ${agent.apiKey.trim()}`;
+  }
+  return { ...headers, ...agent.customHeaders };
+}
+
+/**
+ * Resolve the list-models URL for a custom endpoint from the same base URL
+ */
+export function resolveModelsUrl(baseUrl: string): string {
+  const url = new URL(baseUrl.trim());
+  url.pathname = `${url.pathname.replace(/\/$/, '').replace(/\/chat\/completions$/, '')}/models`;
+  return url.toString();
+}
+
+export async function callOpenAICompatible(
+  agent: AgentConfig,
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  if (!agent.baseUrl?.trim()) {
+    throw new ApiError('OpenAI-compatible provider requires a base URL');
   }
 
-  return content;
+  let url: string;
+  try {
+    url = resolveChatCompletionsUrl(agent.baseUrl);
+  } catch {
+    throw new ApiError(`Invalid base URL: ${agent.baseUrl}`);
+  }
+
+  return callChatCompletions(agent, messages, options, {
+    url,
+    headers: getOpenAICompatibleHeaders(agent),
+    label: 'OpenAI-compatible',
+  });
 }
 
 export async function callOllama(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  const apiMessages = convertMessagesToApiFormat(messages, agent.id, options.participants);
+
+  const settings = resolveGenerationSettings(agent);
 
   // Ollama default base URL
   const baseUrl = agent.baseUrl?.replace(/\/$/, '') || 'http://localhost:11434';
 
   const response = await fetch(`${baseUrl}/api/chat`, {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
     },
@@ -129,9 +440,15 @@ export async function callOllama(
         { role: 'system', content: agent.personality },
         ...apiMessages,
       ],
-      stream: false,
+      stream: !!options.onPartial,
       options: {
-        temperature: 0.9,
+        temperature: settings.temperature,
+        top_p: settings.topP,
+        num_predict: settings.maxOutputTokens,
+        stop: settings.stopSequences,
+        presence_penalty: settings.presencePenalty,
+        frequency_penalty: settings.frequencyPenalty,
+        seed: settings.seed,
         num_ctx: 4096,
       },
     }),
@@ -141,10 +458,42 @@ export async function callOllama(
     const errorText = await response.text().catch(() => '');
     throw new ApiError(
       errorText || `Ollama API error: ${response.status}`,
-      response.status
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
+  if (options.onPartial) {
+    // Ollama streams newline-delimited JSON objects rather than SSE
+    let streamed = '';
+    let usage: TokenUsage | undefined;
+    await readResponseLines(response, line => {
+      let chunk: OllamaStreamChunk;
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        console.warn('[API Debug] Skipping malformed Ollama chunk:', line);
+        return;
+      }
+      if (chunk.error) {
+        throw new ApiError(chunk.error);
+      }
+      if (chunk.done) {
+        // Only the final chunk carries the prompt/eval counts
+        usage = createTokenUsage(chunk.prompt_eval_count, chunk.eval_count);
+      }
+      const delta = chunk.message?.content;
+      if (typeof delta === 'string' && delta.length > 0) {
+        streamed += delta;
+        options.onPartial(streamed);
+      }
+    });
+    if (streamed.trim().length === 0) {
+      throw new ApiError('Ollama API returned empty text content');
+    }
+    return { content: streamed, usage };
+  }
+
   const data = await response.json();
 
   // Ollama returns { message: { content: string } }
@@ -153,17 +502,20 @@ export async function callOllama(
     throw new ApiError('Ollama API returned empty text content');
   }
 
-  return content;
+  return { content, usage: createTokenUsage(data.prompt_eval_count, data.eval_count) };
 }
 
 export async function callAnthropic(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
-  
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  const apiMessages = convertMessagesToApiFormat(messages, agent.id, options.participants);
+  const settings = resolveGenerationSettings(agent);
+
   const response = await fetch('https://api.anthropic.com/v1/messages', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'x-api-key': agent.apiKey,
       'anthropic-version': '2023-06-01',
@@ -171,9 +523,15 @@ export async function callAnthropic(
     },
     body: JSON.stringify({
       model: agent.model,
-      max_tokens: 150,
+      // max_tokens is required by Anthropic; temperature is capped at 1.0.
+      // Penalties and seed have no Anthropic equivalent and are not sent.
+      max_tokens: settings.maxOutputTokens ?? DEFAULT_GENERATION_SETTINGS.maxOutputTokens,
+      temperature: settings.temperature !== undefined ? Math.min(settings.temperature, 1) : undefined,
+      top_p: settings.topP,
+      stop_sequences: settings.stopSequences,
       system: agent.personality,
       messages: apiMessages,
+      stream: !!options.onPartial,
     }),
   });
 
@@ -181,10 +539,35 @@ export async function callAnthropic(
     const errorData = await response.json().catch(() => ({}));
     throw new ApiError(
       errorData.error?.message || `Anthropic API error: ${response.status}`,
-      response.status
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
+  if (options.onPartial) {
+    let streamed = '';
+    let inputTokens: number | undefined;
+    let outputTokens: number | undefined;
+    await readServerSentEvents<AnthropicStreamEvent>(response, event => {
+      // Input tokens are reported up front; the running output count arrives in message_delta
+      if (event.type === 'message_start') {
+        inputTokens = event.message?.usage?.input_tokens;
+        outputTokens = event.message?.usage?.output_tokens;
+      } else if (event.type === 'message_delta' && event.usage?.output_tokens !== undefined) {
+        outputTokens = event.usage.output_tokens;
+      }
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        streamed += event.delta.text;
+        options.onPartial(streamed);
+      }
+    });
+    if (streamed.trim().length === 0) {
+      console.error(`[Anthropic API] Empty streamed text for ${agent.name}`);
+      throw new ApiError('Anthropic API returned empty text content');
+    }
+    return { content: streamed, usage: createTokenUsage(inputTokens, outputTokens) };
+  }
+
   const data = await response.json();
 
   console.log(`[Anthropic API] Raw response for ${agent.name}:`, data);
@@ -202,24 +585,35 @@ export async function callAnthropic(
   }
 
   console.log(`[Anthropic API] Response text for ${agent.name}:`, text);
-  return text;
+  return {
+    content: text,
+    usage: createTokenUsage(data.usage?.input_tokens, data.usage?.output_tokens),
+  };
 }
 
 export async function callGoogle(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
-  
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  const apiMessages = convertMessagesToApiFormat(messages, agent.id, options.participants);
+  const settings = resolveGenerationSettings(agent);
+
   const contents = apiMessages.map(msg => ({
     role: msg.role === 'assistant' ? 'model' : 'user',
     parts: [{ text: msg.content }],
   }));
 
+  // Streaming uses a separate endpoint; alt=sse switches it from a JSON array to SSE
+  const endpoint = options.onPartial
+    ? `streamGenerateContent?alt=sse&key=${agent.apiKey}`
+    : `generateContent?key=${agent.apiKey}`;
+
   const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${agent.model}:generateContent?key=${agent.apiKey}`,
+    `https://generativelanguage.googleapis.com/v1beta/models/${agent.model}:${endpoint}`,
     {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -229,8 +623,13 @@ export async function callGoogle(
         },
         contents,
         generationConfig: {
-          maxOutputTokens: 150,
-          temperature: 0.9,
+          maxOutputTokens: settings.maxOutputTokens,
+          temperature: settings.temperature,
+          topP: settings.topP,
+          stopSequences: settings.stopSequences,
+          presencePenalty: settings.presencePenalty,
+          frequencyPenalty: settings.frequencyPenalty,
+          seed: settings.seed,
         },
       }),
     }
@@ -240,10 +639,31 @@ export async function callGoogle(
     const errorData = await response.json().catch(() => ({}));
     throw new ApiError(
       errorData.error?.message || `Google API error: ${response.status}`,
-      response.status
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
+  if (options.onPartial) {
+    let streamed = '';
+    let usage: TokenUsage | undefined;
+    await readServerSentEvents<GoogleStreamChunk>(response, chunk => {
+      // usageMetadata is cumulative, so the latest chunk wins
+      usage = parseGoogleUsage(chunk.usageMetadata) ?? usage;
+      const delta = (chunk.candidates?.[0]?.content?.parts || [])
+        .map(part => part.text || '')
+        .join('');
+      if (delta.length > 0) {
+        streamed += delta;
+        options.onPartial(streamed);
+      }
+    });
+    if (streamed.trim().length === 0) {
+      throw new ApiError('Google API returned empty text content');
+    }
+    return { content: streamed, usage };
+  }
+
   const data = await response.json();
 
   // Validate response has content
@@ -256,60 +676,27 @@ export async function callGoogle(
     throw new ApiError('Google API returned empty text content');
   }
 
-  return text;
+  return { content: text, usage: parseGoogleUsage(data.usageMetadata) };
 }
 
 export async function callXAI(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
-
-  const response = await fetch('https://api.x.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${agent.apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: agent.model,
-      messages: [
-        { role: 'system', content: agent.personality },
-        ...apiMessages,
-      ],
-      max_tokens: 150,
-      temperature: 0.9,
-    }),
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  return callChatCompletions(agent, messages, options, {
+    url: 'https://api.x.ai/v1/chat/completions',
+    headers: { 'Authorization': `Bearer ${agent.apiKey}` },
+    label: 'xAI',
   });
-
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new ApiError(
-      errorData.error?.message || `xAI API error: ${response.status}`,
-      response.status
-    );
-  }
-
-  const data = await response.json();
-
-  // Validate response has content
-  if (!data.choices || !Array.isArray(data.choices) || data.choices.length === 0) {
-    throw new ApiError('xAI API returned empty response');
-  }
-
-  const content = data.choices[0].message.content;
-  if (!content || typeof content !== 'string' || content.trim().length === 0) {
-    throw new ApiError('xAI API returned empty text content');
-  }
-
-  return content;
 }
 
 export async function callHuggingFace(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
-  const apiMessages = convertMessagesToApiFormat(messages, agent.id);
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
+  const apiMessages = convertMessagesToApiFormat(messages, agent.id, options.participants);
 
   // Add system prompt as a system message
   const messagesWithSystem = [
@@ -320,6 +707,7 @@ export async function callHuggingFace(
   // Call the serverless proxy function instead of HuggingFace API directly
   const response = await fetch('/api/huggingface', {
     method: 'POST',
+    signal: options.signal,
     headers: {
       'Content-Type': 'application/json',
     },
@@ -327,10 +715,8 @@ export async function callHuggingFace(
       model: agent.model,
       messages: messagesWithSystem,
       apiKey: agent.apiKey,
-      parameters: {
-        max_new_tokens: 300,
-        temperature: 0.9,
-      }
+      stream: !!options.onPartial,
+      parameters: toOpenAIGenerationParams(resolveGenerationSettings(agent)),
     }),
   });
 
@@ -338,10 +724,20 @@ export async function callHuggingFace(
     const errorData = await response.json().catch(() => ({}));
     throw new ApiError(
       errorData.error || `HuggingFace API error: ${response.status}`,
-      response.status
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after'))
     );
   }
 
+  if (options.onPartial) {
+    // The proxy relays the upstream OpenAI-compatible SSE stream unchanged
+    const streamed = await readOpenAIStyleStream(response, options.onPartial);
+    if (streamed.content.trim().length === 0) {
+      throw new ApiError('HuggingFace API returned empty text content');
+    }
+    return streamed;
+  }
+
   const result = await response.json();
 
   // Validate response has content
@@ -350,13 +746,69 @@ export async function callHuggingFace(
     throw new ApiError('HuggingFace API returned empty text content');
   }
 
-  return generatedText;
+  return { content: generatedText, usage: parseOpenAIUsage(result.usage) };
+}
+
+function approximateUsage(agent: AgentConfig, messages: Message[], reply: string): TokenUsage {
+  const promptText = [agent.personality, ...messages.map(msg => msg.content)].join('\n');
+  const promptTokens = estimateTokenCount(promptText);
+  const completionTokens = estimateTokenCount(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+/**
+ * Route all providers through Ollama when local mode is enabled
+ */
+function toLocalModeAgent(agent: AgentConfig, localMode: { enabled: boolean; baseUrl?: string }): AgentConfig {
+  return {
+    ...agent,
+    provider: 'ollama',
+    // If user set agent-specific baseUrl, prefer it; otherwise use global local mode baseUrl
+    baseUrl: agent.baseUrl || localMode.baseUrl,
+    // Model can remain as-is; Ollama will error if unsupported. Prefer a common default.
+    model: agent.model || 'llama3',
+    apiKey: '',
+  };
+}
+
+/**
+ * Send a single request to the agent's provider, honouring local mode routing
+ */
+async function dispatchToProvider(
+  agent: AgentConfig,
+  messages: Message[],
+  options: CallAgentOptions,
+  localMode: { enabled: boolean; baseUrl?: string }
+): Promise<AgentResponse> {
+  if (localMode.enabled && agent.provider !== 'ollama') {
+    return callOllama(toLocalModeAgent(agent, localMode), messages, options);
+  }
+
+  switch (agent.provider) {
+    case 'openai':
+      return callOpenAI(agent, messages, options);
+    case 'anthropic':
+      return callAnthropic(agent, messages, options);
+    case 'google':
+      return callGoogle(agent, messages, options);
+    case 'xai':
+      return callXAI(agent, messages, options);
+    case 'ollama':
+      return callOllama(agent, messages, options);
+    case 'huggingface':
+      return callHuggingFace(agent, messages, options);
+    case 'openai-compatible':
+      return callOpenAICompatible(agent, messages, options);
+    default:
+      throw new ApiError(`Unsupported provider: ${agent.provider}`);
+  }
 }
 
 export async function callAgent(
   agent: AgentConfig,
-  messages: Message[]
-): Promise<string> {
+  messages: Message[],
+  options: CallAgentOptions = {}
+): Promise<AgentResponse> {
   const requestId = `${agent.id}-${Date.now()}`;
   const startTime = Date.now();
 
@@ -368,74 +820,307 @@ export async function callAgent(
     provider: agent.provider,
     model: agent.model,
     messageCount: messages.length,
+    streaming: !!options.onPartial,
   } as ApiRequestStartEvent);
 
+  // Providers read the system prompt from the agent's personality
+  const promptSections = [agent.personality];
+  if (options.contextSummary) {
+    promptSections.push(`Summary of the earlier conversation (older messages are not shown):\n${options.contextSummary}`);
+  }
+  if (options.instructions) {
+    promptSections.push(options.instructions);
+  }
+  if (options.nudge) {
+    promptSections.push(`Moderator's note for your next reply: ${options.nudge}`);
+  }
+  const promptAgent: AgentConfig = promptSections.length > 1
+    ? { ...agent, personality: promptSections.join('\n\n') }
+    : agent;
+
+  const localMode = getLocalModeConfig();
+  const billedProvider = localMode.enabled ? 'ollama' : agent.provider;
+  const retryPolicy = getRetryPolicy(billedProvider);
+
   try {
-    let result: string;
-
-    const { enabled: localModeEnabled, baseUrl: localModeBaseUrl } = getLocalModeConfig();
-    if (localModeEnabled && agent.provider !== 'ollama') {
-      // Route all providers through Ollama when local mode is enabled
-      const ollamaAgent: AgentConfig = {
-        ...agent,
-        provider: 'ollama',
-        // If user set agent-specific baseUrl, prefer it; otherwise use global local mode baseUrl
-        baseUrl: agent.baseUrl || localModeBaseUrl,
-        // Model can remain as-is; Ollama will error if unsupported. Prefer a common default.
-        model: (typeof agent.model === 'string' ? agent.model : 'llama3') as any,
-        apiKey: '',
-      };
-      result = await callOllama(ollamaAgent, messages);
-    } else {
-      switch (agent.provider) {
-        case 'openai':
-          result = await callOpenAI(agent, messages);
-          break;
-        case 'anthropic':
-          result = await callAnthropic(agent, messages);
-          break;
-        case 'google':
-          result = await callGoogle(agent, messages);
-          break;
-        case 'xai':
-          result = await callXAI(agent, messages);
-          break;
-        case 'ollama':
-          result = await callOllama(agent, messages);
-          break;
-        case 'huggingface':
-          result = await callHuggingFace(agent, messages);
-          break;
-        default:
-          throw new ApiError(`Unsupported provider: ${agent.provider}`);
+    let result: AgentResponse;
+    let attempt = 0;
+
+    while (true) {
+      try {
+        result = await dispatchToProvider(promptAgent, messages, options, localMode);
+        break;
+      } catch (error) {
+        attempt += 1;
+        if (attempt > retryPolicy.maxRetries || !isRetryableError(error)) {
+          throw error;
+        }
+        // A server asking for a longer wait than the policy allows would stall the whole turn; report it instead
+        if (error instanceof ApiError && error.retryAfterMs !== undefined && error.retryAfterMs > retryPolicy.maxDelayMs) {
+          throw error;
+        }
+
+        // Prefer the server's Retry-After over our own backoff schedule
+        const delayMs = error instanceof ApiError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : getBackoffDelay(retryPolicy, attempt);
+
+        // Debug event: API request retry
+        debugEvents.emit('api_request_retry', {
+          requestId,
+          agentId: agent.id,
+          agentName: agent.name,
+          attempt,
+          maxRetries: retryPolicy.maxRetries,
+          delayMs,
+          error: error instanceof Error ? error.message : String(error),
+          statusCode: error instanceof ApiError ? error.statusCode : undefined,
+        } as ApiRequestRetryEvent);
+
+        await sleep(delayMs, options.signal);
       }
     }
 
     const responseTime = Date.now() - startTime;
 
+    // Fall back to a character-based estimate so providers without usage still count towards budgets
+    const billedUsage = result.usage ?? approximateUsage(promptAgent, messages, result.content);
+    result.cost = estimateCost(billedProvider, agent.model, billedUsage);
+    result.tokens = billedUsage.totalTokens;
+
     // Debug event: API request success
     debugEvents.emit('api_request_success', {
       requestId,
       agentId: agent.id,
       agentName: agent.name,
       responseTime,
-      // Note: Token usage not available from all providers
-      tokenUsage: undefined,
+      // Undefined when the provider did not report usage
+      tokenUsage: result.usage,
+      estimatedCost: result.cost,
+      retries: attempt,
     } as ApiRequestSuccessEvent);
 
     return result;
   } catch (error) {
     const responseTime = Date.now() - startTime;
+    const cancelled = isAbortError(error);
 
     // Debug event: API request error
     debugEvents.emit('api_request_error', {
       requestId,
       agentId: agent.id,
       agentName: agent.name,
-      error: error instanceof Error ? error.message : String(error),
+      error: cancelled ? 'Request cancelled' : (error instanceof Error ? error.message : String(error)),
       responseTime,
+      cancelled,
     } as ApiRequestErrorEvent);
 
     throw error;
   }
 }
+
+export type ConnectionStatus = 'ok' | 'invalid_key' | 'model_not_found' | 'cors_blocked' | 'unreachable' | 'error';
+
+export const CONNECTION_STATUS_LABELS: Record<ConnectionStatus, string> = {
+  ok: 'Connected',
+  invalid_key: 'Invalid API key',
+  model_not_found: 'Model not found',
+  cors_blocked: 'Blocked by CORS',
+  unreachable: 'Host unreachable',
+  error: 'Connection failed',
+};
+
+export interface ConnectionTestResult {
+  status: ConnectionStatus;
+  message: string;
+  statusCode?: number;
+}
+
+const CONNECTION_TEST_TIMEOUT_MS = 10000;
+
+/**
+ * fetch reports CORS rejections and dead hosts with the same TypeError.
+ * An opaque no-cors request still succeeds when the host is up, which tells the two apart.
+ */
+async function classifyNetworkFailure(url: string): Promise<ConnectionTestResult> {
+  try {
+    await fetch(url, { mode: 'no-cors', signal: AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS) });
+    return {
+      status: 'cors_blocked',
+      message: 'The server is reachable but blocks requests from the browser (CORS)',
+    };
+  } catch {
+    return { status: 'unreachable', message: `Could not reach ${new URL(url).host}` };
+  }
+}
+
+function classifyHttpFailure(statusCode: number, detail: string): ConnectionTestResult {
+  if (statusCode === 401 || statusCode === 403 || (statusCode === 400 && /api[ _-]?key/i.test(detail))) {
+    return { status: 'invalid_key', message: detail || 'The API key was rejected', statusCode };
+  }
+  if (statusCode === 404) {
+    return { status: 'model_not_found', message: detail || 'Model not found', statusCode };
+  }
+  if (statusCode === 429) {
+    // Rate limiting only happens to authenticated callers
+    return { status: 'ok', message: 'Connected (currently rate limited)', statusCode };
+  }
+  return { status: 'error', message: detail || `Unexpected response: ${statusCode}`, statusCode };
+}
+
+/**
+ * GET an endpoint and classify the outcome. Returns the parsed body on success.
+ */
+async function probeEndpoint<T>(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal
+): Promise<{ result: ConnectionTestResult; data?: T }> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers, signal });
+  } catch (error) {
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return { result: { status: 'unreachable', message: 'The connection timed out' } };
+    }
+    if (isAbortError(error)) throw error;
+    return { result: await classifyNetworkFailure(url) };
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    const detail = typeof errorData.error === 'string' ? errorData.error : errorData.error?.message || '';
+    return { result: classifyHttpFailure(response.status, detail) };
+  }
+
+  const data = await response.json().catch(() => undefined);
+  return { result: { status: 'ok', message: 'Connected' }, data };
+}
+
+/**
+ * Make a cheap authenticated call to the agent's provider (fetching the configured model's
+ * metadata, or listing models) to catch bad keys, models and URLs before the first chat message
+ */
+export async function testConnection(
+  agent: AgentConfig,
+  options: { signal?: AbortSignal } = {}
+): Promise<ConnectionTestResult> {
+  const localMode = getLocalModeConfig();
+  const target = localMode.enabled && agent.provider !== 'ollama' ? toLocalModeAgent(agent, localMode) : agent;
+  const signal = options.signal ?? AbortSignal.timeout(CONNECTION_TEST_TIMEOUT_MS);
+  const model = encodeURIComponent(target.model);
+
+  switch (target.provider) {
+    case 'openai':
+      return (await probeEndpoint(`https://api.openai.com/v1/models/${model}`, {
+        'Authorization': `Bearer ${target.apiKey}`,
+      }, signal)).result;
+    case 'anthropic':
+      return (await probeEndpoint(`https://api.anthropic.com/v1/models/${model}`, {
+        'x-api-key': target.apiKey,
+        'anthropic-version': '2023-06-01',
+      }, signal)).result;
+    case 'google':
+      return (await probeEndpoint(
+        `https://generativelanguage.googleapis.com/v1beta/models/${model}?key=${encodeURIComponent(target.apiKey)}`,
+        {},
+        signal
+      )).result;
+    case 'xai':
+      return (await probeEndpoint(`https://api.x.ai/v1/models/${model}`, {
+        'Authorization': `Bearer ${target.apiKey}`,
+      }, signal)).result;
+    case 'ollama': {
+      const baseUrl = target.baseUrl?.trim().replace(/\/$/, '') || 'http://localhost:11434';
+      try {
+        new URL(`${baseUrl}/api/tags`);
+      } catch {
+        return { status: 'error', message: `Invalid base URL: ${target.baseUrl}` };
+      }
+      const { result, data } = await probeEndpoint<{ models?: Array<{ name: string }> }>(
+        `${baseUrl}/api/tags`,
+        {},
+        signal
+      );
+      if (result.status !== 'ok') return result;
+      // Ollama tags untagged pulls as :latest
+      const installed = (data?.models || []).some(
+        (entry) => entry.name === target.model || entry.name === `${target.model}:latest`
+      );
+      return installed
+        ? result
+        : { status: 'model_not_found', message: `${target.model} is not installed. Run: ollama pull ${target.model}` };
+    }
+    case 'openai-compatible': {
+      if (!target.baseUrl?.trim()) {
+        return { status: 'error', message: 'A base URL is required' };
+      }
+      let url: string;
+      try {
+        url = resolveModelsUrl(target.baseUrl);
+      } catch {
+        return { status: 'error', message: `Invalid base URL: ${target.baseUrl}` };
+      }
+      const { result, data } = await probeEndpoint<{ data?: Array<{ id: string }> }>(
+        url,
+        getOpenAICompatibleHeaders(target),
+        signal
+      );
+      if (result.status === 'model_not_found') {
+        // A 404 here means the models route itself is missing, not the model
+        return { status: 'error', message: 'No models endpoint at this URL. Check the base URL', statusCode: 404 };
+      }
+      const listed = data?.data?.map((entry) => entry.id) || [];
+      if (result.status === 'ok' && listed.length > 0 && !listed.includes(target.model)) {
+        return { status: 'model_not_found', message: `The server does not list ${target.model}` };
+      }
+      return result;
+    }
+    case 'huggingface': {
+      // The proxy exposes no metadata route, so send a one-token request instead
+      try {
+        await callHuggingFace(
+          { ...target, generation: { ...target.generation, maxOutputTokens: 1 } },
+          [{ id: 'connection-test', sender: 'user', recipient: target.id, content: 'Hi', timestamp: Date.now() }],
+          { signal }
+        );
+        return { status: 'ok', message: 'Connected' };
+      } catch (error) {
+        if (error instanceof ApiError) {
+          // Without a status code the model was reached but produced no text for a one-token request
+          return error.statusCode !== undefined
+            ? classifyHttpFailure(error.statusCode, error.message)
+            : { status: 'ok', message: 'Connected' };
+        }
+        if (error instanceof Error && error.name === 'TimeoutError') {
+          return { status: 'unreachable', message: 'The connection timed out' };
+        }
+        if (isAbortError(error)) throw error;
+        return { status: 'unreachable', message: 'Could not reach the HuggingFace proxy' };
+      }
+    }
+    default:
+      return { status: 'error', message: `Unsupported provider: ${target.provider}` };
+  }
+}
+
+export interface AgentConnectionFailure {
+  agent: AgentConfig;
+  result: ConnectionTestResult;
+}
+
+/**
+ * Test every agent in parallel and return the ones that failed. One agent's test throwing
+ * counts as its own failure rather than rejecting the whole check.
+ */
+export async function checkAgentConnections(agents: AgentConfig[]): Promise<AgentConnectionFailure[]> {
+  const results = await Promise.all(agents.map((agent) =>
+    testConnection(agent).catch((error): ConnectionTestResult => ({
+      status: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    }))
+  ));
+  return agents
+    .map((agent, index) => ({ agent, result: results[index] }))
+    .filter(({ result }) => result.status !== 'ok');
+}
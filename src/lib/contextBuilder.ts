@@ -0,0 +1,252 @@
+import { AgentConfig, ApiProvider, Message, DEFAULT_GENERATION_SETTINGS } from '@/types/agent';
+import { MemoryOperationEvent } from '@/types/debug';
+import { callAgent } from './apiClients';
+import { ContextSummary, isMessageVisibleToAgent } from './conversationStateManager';
+import { debugEvents } from './debugEventEmitter';
+import { estimateTokenCount } from './tokens';
+
+const CONTEXT_SETTINGS_STORAGE_KEY = 'coffeehouse-context-settings';
+
+export interface ContextSettings {
+  /** Cap on prompt tokens regardless of the model's window, to keep costs bounded; null uses the full window */
+  maxContextTokens: number | null;
+  /** Who writes rolling summaries: the replying agent itself, another agent by ID, or 'off' to just drop old turns */
+  summarizer: 'self' | 'off' | string;
+}
+
+export const DEFAULT_CONTEXT_SETTINGS: ContextSettings = {
+  maxContextTokens: 8000,
+  summarizer: 'self',
+};
+
+/**
+ * Published context windows in tokens. Discovered model IDs are matched by longest prefix,
+ * so dated snapshots like `gpt-4o-2024-08-06` resolve to their family.
+ */
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4.1': 1047576,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-3.5-turbo': 16385,
+  'claude-': 200000,
+  'gemini-1.5-pro': 2097152,
+  'gemini-': 1048576,
+  'grok-vision-beta': 8192,
+  'grok-': 131072,
+  'TinyLlama/TinyLlama-1.1B-Chat-v1.0': 2048,
+  'Qwen/Qwen2.5-0.5B-Instruct': 32768,
+  'meta-llama/Llama-3.2-1B-Instruct': 131072,
+};
+
+/**
+ * Fallback when the model is unknown. Ollama truncates silently at its num_ctx, which defaults to 4096.
+ */
+const DEFAULT_CONTEXT_WINDOWS: Record<ApiProvider, number> = {
+  openai: 128000,
+  anthropic: 200000,
+  google: 1048576,
+  xai: 131072,
+  ollama: 4096,
+  huggingface: 2048,
+  'openai-compatible': 8192,
+};
+
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Headroom for the estimate being off; the chars/4 heuristic undercounts code and non-English text
+const SAFETY_MARGIN_TOKENS = 256;
+
+// When compacting, trim to this share of the budget so summaries are made in batches, not every turn
+const COMPACTION_TARGET_RATIO = 0.6;
+
+const SUMMARY_MAX_OUTPUT_TOKENS = 400;
+
+const SUMMARIZER_PROMPT =
+  'You maintain a running summary of a group conversation for a participant whose memory is limited. ' +
+  'Merge the existing summary with the new messages into one updated summary. Keep names, facts, decisions, ' +
+  'open questions and anything said privately, and note who said what. Write at most two short paragraphs, ' +
+  'in plain prose, with no preamble.';
+
+export function loadContextSettings(): ContextSettings {
+  try {
+    const stored = localStorage.getItem(CONTEXT_SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_CONTEXT_SETTINGS, ...JSON.parse(stored) } : { ...DEFAULT_CONTEXT_SETTINGS };
+  } catch {
+    return { ...DEFAULT_CONTEXT_SETTINGS };
+  }
+}
+
+export function saveContextSettings(settings: ContextSettings): void {
+  localStorage.setItem(CONTEXT_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Context window of the agent's model in tokens
+ */
+export function getContextWindow(agent: AgentConfig): number {
+  if (MODEL_CONTEXT_WINDOWS[agent.model]) {
+    return MODEL_CONTEXT_WINDOWS[agent.model];
+  }
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter((key) => agent.model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOWS[agent.provider];
+}
+
+function estimateMessageTokens(message: Message): number {
+  return estimateTokenCount(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Index of the first message to keep so that the kept tail fits the budget.
+ * The newest message is always kept.
+ */
+function findKeepIndex(messages: Message[], budget: number): number {
+  let total = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    total += estimateMessageTokens(messages[i]);
+    if (total > budget) {
+      return Math.min(i + 1, messages.length - 1);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Plain-text transcript with names resolved, for prompts that read a conversation as a whole
+ */
+export function formatTranscript(messages: Message[], agents: AgentConfig[]): string {
+  const nameOf = (id: string) => (id === 'user' ? 'User' : agents.find((a) => a.id === id)?.name || id);
+  return messages
+    .map((msg) => {
+      const audience = msg.recipient === 'everyone' ? '' : ` (privately to ${nameOf(msg.recipient)})`;
+      return `${nameOf(msg.sender)}${audience}: ${msg.content}`;
+    })
+    .join('\n');
+}
+
+export interface BuildContextOptions {
+  /** All configured agents, to resolve names and the summarizer */
+  agents: AgentConfig[];
+  /** Summary stored with the conversation, if older turns were compressed before */
+  summary?: ContextSummary;
+  settings?: ContextSettings;
+  signal?: AbortSignal;
+}
+
+export interface AgentContext {
+  /** Recent messages to send verbatim */
+  messages: Message[];
+  /** Updated summary to store with the conversation; unchanged when nothing new was compressed */
+  summary?: ContextSummary;
+  /** Messages left out of the prompt, whether summarized or dropped */
+  omittedCount: number;
+  estimatedTokens: number;
+  /** Cost and billed tokens of the summarizer call, charged to the summarizer agent */
+  summaryCost?: { agentId: string; cost: number; tokens: number };
+}
+
+/**
+ * Build the prompt context for an agent: the system prompt and recent turns verbatim,
+ * with older turns compressed into a rolling summary once the history outgrows the budget
+ */
+export async function buildAgentContext(
+  agent: AgentConfig,
+  allMessages: Message[],
+  options: BuildContextOptions
+): Promise<AgentContext> {
+  const settings = options.settings ?? loadContextSettings();
+  let summary = options.summary;
+
+  // Turns already folded into the summary are never sent again
+  const pending = allMessages.filter(
+    (msg) => isMessageVisibleToAgent(msg, agent.id) && (!summary || msg.timestamp > summary.coveredUntil)
+  );
+
+  const window = Math.min(getContextWindow(agent), settings.maxContextTokens ?? Infinity);
+  const reservedTokens =
+    (agent.generation?.maxOutputTokens ?? DEFAULT_GENERATION_SETTINGS.maxOutputTokens ?? 0) +
+    estimateTokenCount(agent.personality) +
+    SAFETY_MARGIN_TOKENS;
+  const summaryTokens = summary ? estimateTokenCount(summary.content) : 0;
+  // Leave room for a summary once compaction starts, even if there is none yet
+  const messageBudget = Math.max(window - reservedTokens - Math.max(summaryTokens, SUMMARY_MAX_OUTPUT_TOKENS), 0);
+
+  const pendingTokens = pending.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+  if (pendingTokens <= messageBudget) {
+    return {
+      messages: pending,
+      summary,
+      omittedCount: summary?.messageCount ?? 0,
+      estimatedTokens: reservedTokens + summaryTokens + pendingTokens,
+    };
+  }
+
+  const keepIndex = findKeepIndex(pending, Math.floor(messageBudget * COMPACTION_TARGET_RATIO));
+  const overflow = pending.slice(0, keepIndex);
+  const kept = pending.slice(keepIndex);
+  let summaryCost: AgentContext['summaryCost'];
+
+  const summarizerAgent = settings.summarizer === 'self'
+    ? agent
+    : options.agents.find((a) => a.id === settings.summarizer);
+
+  if (settings.summarizer !== 'off' && summarizerAgent && overflow.length > 0) {
+    try {
+      const response = await callAgent(
+        {
+          ...summarizerAgent,
+          personality: SUMMARIZER_PROMPT,
+          generation: { ...summarizerAgent.generation, maxOutputTokens: SUMMARY_MAX_OUTPUT_TOKENS, temperature: 0.3 },
+        },
+        [{
+          id: `summary-request-${Date.now()}`,
+          sender: 'user',
+          recipient: summarizerAgent.id,
+          content: [
+            summary ? `Existing summary:\n${summary.content}` : 'Existing summary: (none yet)',
+            `New messages:\n${formatTranscript(overflow, options.agents)}`,
+          ].join('\n\n'),
+          timestamp: Date.now(),
+        }],
+        { signal: options.signal }
+      );
+
+      summary = {
+        content: response.content.trim(),
+        coveredUntil: overflow[overflow.length - 1].timestamp,
+        messageCount: (summary?.messageCount ?? 0) + overflow.length,
+        updatedAt: Date.now(),
+      };
+      summaryCost = { agentId: summarizerAgent.id, cost: response.cost ?? 0, tokens: response.tokens ?? 0 };
+
+      // Debug event: older turns compressed
+      debugEvents.emit('memory_operation', {
+        operation: 'summarize',
+        details: `Summarized ${overflow.length} older messages for ${agent.name} (via ${summarizerAgent.name})`,
+      } as MemoryOperationEvent);
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      // Without a fresh summary, fall back to plain truncation for this turn
+      console.error(`[ContextBuilder] Summarization failed for ${agent.name}:`, error);
+    }
+  }
+
+  if (!summaryCost) {
+    // Debug event: older turns dropped without summarizing
+    debugEvents.emit('memory_operation', {
+      operation: 'truncate',
+      details: `Dropped ${overflow.length} older messages from ${agent.name}'s context`,
+    } as MemoryOperationEvent);
+  }
+
+  const keptTokens = kept.reduce((total, msg) => total + estimateMessageTokens(msg), 0);
+  return {
+    messages: kept,
+    summary,
+    omittedCount: (summary?.messageCount ?? 0) + (summaryCost ? 0 : overflow.length),
+    estimatedTokens: reservedTokens + (summary ? estimateTokenCount(summary.content) : 0) + keptTokens,
+    summaryCost,
+  };
+}
@@ -1,4 +1,4 @@
-import { Message } from '@/types/agent';
+import { DEFAULT_GROUP_WINDOW, DEFAULT_MEMORY_POLICY, MemoryPolicy, Message } from '@/types/agent';
 import { debugEvents } from './debugEventEmitter';
 import { MessageAddedEvent, MemoryOperationEvent } from '@/types/debug';
 
@@ -9,16 +9,53 @@ export interface ConversationState {
   mode: ConversationMode;
 }
 
+/**
+ * Rolling summary of the turns that no longer fit in an agent's context window
+ */
+export interface ContextSummary {
+  content: string;
+  /** Timestamp of the newest message folded into the summary */
+  coveredUntil: number;
+  /** Number of messages folded into the summary so far */
+  messageCount: number;
+  updatedAt: number;
+}
+
+/**
+ * Copy of a conversation's history up to one message, from which a branch continues independently
+ */
+export interface ConversationSnapshot {
+  states: { [mode: string]: Message[] };
+  contextSummaries: { [agentId: string]: ContextSummary };
+  /** The last message included; later messages in every conversation are left out */
+  branchPoint: Message;
+  /** Conversation the branch point belongs to, opened first in the branch */
+  mode: ConversationMode;
+}
+
+/**
+ * Whether a message belongs in an agent's prompt: group messages, and private messages to or from the agent
+ */
+export function isMessageVisibleToAgent(message: Message, agentId: string): boolean {
+  return message.recipient === 'everyone' ||
+         message.recipient === agentId ||
+         message.sender === agentId;
+}
+
 /**
  * Manages isolated conversation states for different AI entities
  * Ensures that private conversations remain separate and group conversations are shared
  */
 export class ConversationStateManager {
   private conversationStates: Map<ConversationMode, Message[]>;
+  private contextSummaries: Map<string, ContextSummary>;
+  private memoryPolicies: Map<string, MemoryPolicy>;
   private currentMode: ConversationMode;
 
   constructor() {
     this.conversationStates = new Map();
+    this.contextSummaries = new Map();
+    this.memoryPolicies = new Map();
     this.conversationStates.set('group', []);
     this.currentMode = 'group';
   }
@@ -103,24 +140,138 @@ export class ConversationStateManager {
   }
 
   /**
-   * Get messages relevant to a specific agent
-   * ALWAYS returns BOTH private messages with this agent AND all group messages (merged and sorted)
-   * This enables bidirectional memory: private ↔ group
+   * Replace a stored message with an updated copy, e.g. after an edit or regeneration
+   * @returns false when the message is not in that conversation
+   */
+  replaceMessage(mode: ConversationMode, message: Message): boolean {
+    const messages = this.conversationStates.get(mode) || [];
+    const index = messages.findIndex((existing) => existing.id === message.id);
+    if (index === -1) return false;
+    messages[index] = message;
+    this.invalidateContextSummaries(message.timestamp);
+
+    // Debug event
+    debugEvents.emit('memory_operation', {
+      operation: 'replace',
+      mode: mode === 'group' ? 'group' : 'private',
+      details: `Replaced message ${message.id} in ${mode}`,
+    } as MemoryOperationEvent);
+    return true;
+  }
+
+  /**
+   * Remove a message from a conversation
+   * @returns the removed message, or null when it was not found
+   */
+  removeMessage(mode: ConversationMode, messageId: string): Message | null {
+    const messages = this.conversationStates.get(mode) || [];
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) return null;
+    const [removed] = messages.splice(index, 1);
+    this.invalidateContextSummaries(removed.timestamp);
+
+    // Debug event
+    debugEvents.emit('memory_operation', {
+      operation: 'remove',
+      mode: mode === 'group' ? 'group' : 'private',
+      details: `Removed message ${messageId} from ${mode}`,
+    } as MemoryOperationEvent);
+    return removed;
+  }
+
+  /**
+   * Remove every message in a conversation that follows the given one
+   * @returns the removed messages, oldest first
+   */
+  removeMessagesAfter(mode: ConversationMode, messageId: string): Message[] {
+    const messages = this.conversationStates.get(mode) || [];
+    const index = messages.findIndex((message) => message.id === messageId);
+    if (index === -1) return [];
+    const removed = messages.splice(index + 1);
+    if (removed.length > 0) {
+      this.invalidateContextSummaries(removed[0].timestamp);
+
+      // Debug event
+      debugEvents.emit('memory_operation', {
+        operation: 'remove',
+        mode: mode === 'group' ? 'group' : 'private',
+        details: `Removed ${removed.length} message(s) after ${messageId} from ${mode}`,
+      } as MemoryOperationEvent);
+    }
+    return removed;
+  }
+
+  /**
+   * Drop summaries that cover a changed message, so they are rebuilt from the current history
+   */
+  private invalidateContextSummaries(timestamp: number): void {
+    this.contextSummaries.forEach((summary, agentId) => {
+      if (summary.coveredUntil >= timestamp) {
+        this.contextSummaries.delete(agentId);
+      }
+    });
+  }
+
+  /**
+   * Set which conversations an agent remembers. Its summaries are dropped when the policy
+   * changes, since they may describe messages the new policy hides.
+   * @returns whether the policy changed
    */
-  getMessagesForAgent(agentId: string): Message[] {
-    // Agent always has access to both their private history AND group history
-    // This allows information to flow bidirectionally:
-    // - Private → Group: agent can bring private info into group chat
-    // - Group → Private: agent remembers what was discussed in group chat
-    const privateMessages = this.getMessages(agentId);
-    const groupMessages = this.getMessages('group');
+  setMemoryPolicy(agentId: string, policy: MemoryPolicy | undefined): boolean {
+    const next = policy || DEFAULT_MEMORY_POLICY;
+    const previous = this.getMemoryPolicy(agentId);
+    this.memoryPolicies.set(agentId, next);
+    if (previous.visibility === next.visibility && previous.groupWindow === next.groupWindow) return false;
+
+    this.deleteContextSummaries(agentId);
+
+    // Debug event
+    debugEvents.emit('memory_operation', {
+      operation: 'policy',
+      details: `Memory policy for ${agentId}: ${previous.visibility} → ${next.visibility}`,
+    } as MemoryOperationEvent);
+    return true;
+  }
+
+  getMemoryPolicy(agentId: string): MemoryPolicy {
+    return this.memoryPolicies.get(agentId) || DEFAULT_MEMORY_POLICY;
+  }
+
+  /**
+   * Get the messages an agent remembers when replying in a conversation, merged in
+   * chronological order. The agent's memory policy decides whether its private chat and
+   * the group chat are carried into each other; whispers between other agents are left out.
+   * @param mode - the conversation the agent is replying in; defaults to the current one
+   */
+  getMessagesForAgent(agentId: string, mode: ConversationMode = this.currentMode): Message[] {
+    const policy = this.getMemoryPolicy(agentId);
+    const inGroup = mode !== agentId;
+    let privateMessages = this.getMessages(agentId);
+    let groupMessages = this.getMessages('group').filter((message) => isMessageVisibleToAgent(message, agentId));
+
+    switch (policy.visibility) {
+      case 'private-only':
+        if (!inGroup) groupMessages = [];
+        break;
+      case 'group-only':
+        if (inGroup) privateMessages = [];
+        break;
+      case 'isolated':
+        if (inGroup) privateMessages = [];
+        else groupMessages = [];
+        break;
+      case 'windowed':
+        groupMessages = groupMessages.slice(-(policy.groupWindow ?? DEFAULT_GROUP_WINDOW));
+        break;
+    }
 
     // Merge and sort by timestamp to maintain chronological order
     const allMessages = [...privateMessages, ...groupMessages];
     allMessages.sort((a, b) => a.timestamp - b.timestamp);
 
     console.log(`[ConversationManager] Messages for ${agentId}:`, {
-      currentMode: this.currentMode,
+      replyingIn: mode,
+      visibility: policy.visibility,
       privateCount: privateMessages.length,
       groupCount: groupMessages.length,
       totalCount: allMessages.length,
@@ -139,6 +290,7 @@ export class ConversationStateManager {
    */
   clearAll(): void {
     this.conversationStates.clear();
+    this.contextSummaries.clear();
     this.conversationStates.set('group', []);
     this.currentMode = 'group';
 
@@ -154,6 +306,12 @@ export class ConversationStateManager {
    */
   clearConversation(mode: ConversationMode): void {
     this.conversationStates.set(mode, []);
+    // Every agent's summary draws on the group chat; a private summary only on that agent's chat
+    if (mode === 'group') {
+      this.contextSummaries.clear();
+    } else {
+      this.deleteContextSummaries(mode);
+    }
 
     // Debug event
     debugEvents.emit('memory_operation', {
@@ -203,6 +361,86 @@ export class ConversationStateManager {
     } as MemoryOperationEvent);
   }
 
+  /**
+   * Snapshot every conversation up to and including a message. Private chats are cut at the
+   * same point in time, since agents carry them into the group chat.
+   */
+  forkAt(messageId: string): ConversationSnapshot | null {
+    const located = Array.from(this.conversationStates.entries())
+      .map(([mode, messages]) => ({ mode, message: messages.find((message) => message.id === messageId) }))
+      .find((entry) => entry.message);
+    if (!located) return null;
+    const { mode: branchMode, message: branchPoint } = located;
+
+    const states: { [mode: string]: Message[] } = {};
+    this.conversationStates.forEach((messages, mode) => {
+      const cutoff = mode === branchMode
+        ? messages.indexOf(branchPoint) + 1
+        : messages.filter((message) => message.timestamp <= branchPoint.timestamp).length;
+      states[mode] = messages.slice(0, cutoff).map((message) => ({ ...message }));
+    });
+
+    // Summaries that reach past the branch point describe turns the branch won't have
+    const contextSummaries: { [agentId: string]: ContextSummary } = {};
+    this.contextSummaries.forEach((summary, agentId) => {
+      if (summary.coveredUntil <= branchPoint.timestamp) {
+        contextSummaries[agentId] = { ...summary };
+      }
+    });
+
+    // Debug event
+    debugEvents.emit('memory_operation', {
+      operation: 'fork',
+      mode: branchMode === 'group' ? 'group' : 'private',
+      details: `Forked conversation at message ${messageId} in ${branchMode}`,
+    } as MemoryOperationEvent);
+
+    return { states, contextSummaries, branchPoint, mode: branchMode };
+  }
+
+  /**
+   * Summaries are kept per agent, or per agent and conversation when the agent's
+   * memory policy shows it different histories in the group and private chats
+   */
+  private contextSummaryKey(agentId: string, mode: ConversationMode): string {
+    const { visibility } = this.getMemoryPolicy(agentId);
+    if (visibility === 'private-only' || visibility === 'group-only' || visibility === 'isolated') {
+      return `${agentId}:${mode === agentId ? 'private' : 'group'}`;
+    }
+    return agentId;
+  }
+
+  private deleteContextSummaries(agentId: string): void {
+    this.contextSummaries.delete(agentId);
+    this.contextSummaries.delete(`${agentId}:private`);
+    this.contextSummaries.delete(`${agentId}:group`);
+  }
+
+  /**
+   * Get the rolling context summary for an agent replying in a conversation, if older turns have been compressed
+   */
+  getContextSummary(agentId: string, mode: ConversationMode = this.currentMode): ContextSummary | undefined {
+    return this.contextSummaries.get(this.contextSummaryKey(agentId, mode));
+  }
+
+  setContextSummary(agentId: string, mode: ConversationMode, summary: ContextSummary): void {
+    this.contextSummaries.set(this.contextSummaryKey(agentId, mode), summary);
+  }
+
+  /**
+   * Export context summaries for persistence alongside the conversation states
+   */
+  exportContextSummaries(): { [key: string]: ContextSummary } {
+    return Object.fromEntries(this.contextSummaries);
+  }
+
+  /**
+   * Import context summaries from persistence
+   */
+  importContextSummaries(summaries: { [key: string]: ContextSummary }): void {
+    this.contextSummaries = new Map(Object.entries(summaries || {}));
+  }
+
   /**
    * Get all available conversation modes
    */
@@ -0,0 +1,443 @@
+import { Message } from '@/types/agent';
+import { ContextSummary, ConversationMode } from './conversationStateManager';
+import {
+  MESSAGES_SCHEMA_VERSION,
+  MESSAGE_MIGRATIONS,
+  contextSummarySchema,
+  messageSchema,
+  quarantineRecord,
+  runMigrations,
+  validateRecords,
+} from './persistedState';
+
+const DB_NAME = 'coffeehouse';
+const DB_VERSION = 2;
+const MESSAGES_STORE = 'session-messages';
+const META_STORE = 'session-meta';
+const BY_CONVERSATION_INDEX = 'by-conversation';
+const BY_SESSION_INDEX = 'by-session';
+
+/** Version 1 stores, from before sessions; their records belong to the default session */
+const V1_MESSAGES_STORE = 'messages';
+const V1_META_STORE = 'meta';
+
+/** localStorage keys written before conversations moved to IndexedDB */
+const LEGACY_CONVERSATIONS_KEY = 'coffeehouse-conversations';
+const LEGACY_MODE_KEY = 'coffeehouse-conversation-mode';
+const LEGACY_SUMMARIES_KEY = 'coffeehouse-context-summaries';
+
+/**
+ * Session that owns everything saved before multiple sessions existed
+ */
+export const DEFAULT_SESSION_ID = 'default';
+
+/**
+ * Keys of the small values kept next to each session's messages
+ */
+export type ConversationMetaKey = 'currentMode' | 'contextSummaries' | 'schemaVersion';
+
+const CONVERSATION_META_KEYS: ConversationMetaKey[] = ['currentMode', 'contextSummaries', 'schemaVersion'];
+
+type StoredMessage = Message & { sessionId: string; conversationId: ConversationMode };
+
+/**
+ * Persistence for one session's conversation transcripts. Messages are written one at a time
+ * and read back per conversation, so saving never re-serializes the whole history.
+ */
+export interface ConversationStore {
+  readonly sessionId: string;
+  /** Every stored message, grouped by conversation and ordered by timestamp */
+  loadConversations(): Promise<{ [mode: string]: Message[] }>;
+  getMessages(conversationId: ConversationMode): Promise<Message[]>;
+  putMessage(conversationId: ConversationMode, message: Message): Promise<void>;
+  putMessages(conversationId: ConversationMode, messages: Message[]): Promise<void>;
+  deleteMessage(conversationId: ConversationMode, messageId: string): Promise<void>;
+  deleteConversation(conversationId: ConversationMode): Promise<void>;
+  getMeta<T>(key: ConversationMetaKey): Promise<T | undefined>;
+  setMeta<T>(key: ConversationMetaKey, value: T): Promise<void>;
+  /** Remove this session's messages and metadata */
+  clear(): Promise<void>;
+}
+
+function toStoredMessage(sessionId: string, conversationId: ConversationMode, message: Message): StoredMessage {
+  return { ...message, sessionId, conversationId };
+}
+
+function fromStoredMessage({ sessionId: _sessionId, conversationId: _conversationId, ...message }: StoredMessage): Message {
+  return message;
+}
+
+function groupByConversation(records: StoredMessage[]): { [mode: string]: Message[] } {
+  const conversations: { [mode: string]: Message[] } = {};
+  [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach((record) => {
+      (conversations[record.conversationId] ||= []).push(fromStoredMessage(record));
+    });
+  return conversations;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// Keys for the [sessionId, conversationId, timestamp] index covering one whole conversation
+function conversationRange(sessionId: string, conversationId: ConversationMode): IDBKeyRange {
+  return IDBKeyRange.bound([sessionId, conversationId, -Infinity], [sessionId, conversationId, Infinity]);
+}
+
+/**
+ * Copy version 1 records into the session-keyed stores, then drop the old stores.
+ * Runs inside the upgrade transaction, so a failure leaves version 1 intact.
+ */
+function upgradeFromV1(db: IDBDatabase, transaction: IDBTransaction): void {
+  const messages = transaction.objectStore(MESSAGES_STORE);
+  const meta = transaction.objectStore(META_STORE);
+
+  const messageCursor = transaction.objectStore(V1_MESSAGES_STORE).openCursor();
+  messageCursor.onsuccess = () => {
+    const cursor = messageCursor.result;
+    if (cursor) {
+      messages.put({ ...cursor.value, sessionId: DEFAULT_SESSION_ID });
+      cursor.continue();
+    } else {
+      db.deleteObjectStore(V1_MESSAGES_STORE);
+    }
+  };
+
+  const metaCursor = transaction.objectStore(V1_META_STORE).openCursor();
+  metaCursor.onsuccess = () => {
+    const cursor = metaCursor.result;
+    if (cursor) {
+      meta.put(cursor.value, [DEFAULT_SESSION_ID, cursor.key as string]);
+      cursor.continue();
+    } else {
+      db.deleteObjectStore(V1_META_STORE);
+    }
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the database once and share the connection between every session's store
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+          const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: ['sessionId', 'conversationId', 'id'] });
+          messages.createIndex(BY_CONVERSATION_INDEX, ['sessionId', 'conversationId', 'timestamp']);
+          messages.createIndex(BY_SESSION_INDEX, 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+        if (event.oldVersion === 1 && request.transaction) {
+          upgradeFromV1(db, request.transaction);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry, e.g. after the user leaves private browsing
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * IndexedDB backend, scoped to one session. The database is opened lazily on first use.
+ */
+export class IndexedDBConversationStore implements ConversationStore {
+  constructor(readonly sessionId: string) {}
+
+  private async write(storeName: string, operation: (store: IDBObjectStore) => void): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, 'readwrite');
+    operation(transaction.objectStore(storeName));
+    return transactionDone(transaction);
+  }
+
+  async loadConversations(): Promise<{ [mode: string]: Message[] }> {
+    const db = await openDatabase();
+    const index = db.transaction(MESSAGES_STORE, 'readonly').objectStore(MESSAGES_STORE).index(BY_SESSION_INDEX);
+    return groupByConversation(await requestToPromise(index.getAll(this.sessionId) as IDBRequest<StoredMessage[]>));
+  }
+
+  async getMessages(conversationId: ConversationMode): Promise<Message[]> {
+    const db = await openDatabase();
+    const index = db.transaction(MESSAGES_STORE, 'readonly').objectStore(MESSAGES_STORE).index(BY_CONVERSATION_INDEX);
+    const records = await requestToPromise(
+      index.getAll(conversationRange(this.sessionId, conversationId)) as IDBRequest<StoredMessage[]>
+    );
+    return records.map(fromStoredMessage);
+  }
+
+  putMessage(conversationId: ConversationMode, message: Message): Promise<void> {
+    return this.write(MESSAGES_STORE, (store) => store.put(toStoredMessage(this.sessionId, conversationId, message)));
+  }
+
+  putMessages(conversationId: ConversationMode, messages: Message[]): Promise<void> {
+    return this.write(MESSAGES_STORE, (store) => {
+      messages.forEach((message) => store.put(toStoredMessage(this.sessionId, conversationId, message)));
+    });
+  }
+
+  deleteMessage(conversationId: ConversationMode, messageId: string): Promise<void> {
+    return this.write(MESSAGES_STORE, (store) => store.delete([this.sessionId, conversationId, messageId]));
+  }
+
+  private deleteByIndex(store: IDBObjectStore, indexName: string, query: IDBValidKey | IDBKeyRange): void {
+    const cursorRequest = store.index(indexName).openKeyCursor(query);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+  }
+
+  deleteConversation(conversationId: ConversationMode): Promise<void> {
+    return this.write(MESSAGES_STORE, (store) => {
+      this.deleteByIndex(store, BY_CONVERSATION_INDEX, conversationRange(this.sessionId, conversationId));
+    });
+  }
+
+  async getMeta<T>(key: ConversationMetaKey): Promise<T | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    return requestToPromise(store.get([this.sessionId, key]) as IDBRequest<T | undefined>);
+  }
+
+  setMeta<T>(key: ConversationMetaKey, value: T): Promise<void> {
+    return this.write(META_STORE, (store) => store.put(value, [this.sessionId, key]));
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([MESSAGES_STORE, META_STORE], 'readwrite');
+    this.deleteByIndex(transaction.objectStore(MESSAGES_STORE), BY_SESSION_INDEX, this.sessionId);
+    const meta = transaction.objectStore(META_STORE);
+    CONVERSATION_META_KEYS.forEach((key) => meta.delete([this.sessionId, key]));
+    return transactionDone(transaction);
+  }
+}
+
+/**
+ * Non-persistent backend, scoped to one session, for tests and browsers without IndexedDB
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private messages: Map<string, StoredMessage> = new Map();
+  private meta: Map<ConversationMetaKey, unknown> = new Map();
+
+  constructor(readonly sessionId: string = DEFAULT_SESSION_ID) {}
+
+  private key(conversationId: ConversationMode, messageId: string): string {
+    return JSON.stringify([conversationId, messageId]);
+  }
+
+  async loadConversations(): Promise<{ [mode: string]: Message[] }> {
+    return groupByConversation(Array.from(this.messages.values()));
+  }
+
+  async getMessages(conversationId: ConversationMode): Promise<Message[]> {
+    return (await this.loadConversations())[conversationId] || [];
+  }
+
+  async putMessage(conversationId: ConversationMode, message: Message): Promise<void> {
+    this.messages.set(this.key(conversationId, message.id), toStoredMessage(this.sessionId, conversationId, message));
+  }
+
+  async putMessages(conversationId: ConversationMode, messages: Message[]): Promise<void> {
+    messages.forEach((message) => this.putMessage(conversationId, message));
+  }
+
+  async deleteMessage(conversationId: ConversationMode, messageId: string): Promise<void> {
+    this.messages.delete(this.key(conversationId, messageId));
+  }
+
+  async deleteConversation(conversationId: ConversationMode): Promise<void> {
+    this.messages.forEach((record, key) => {
+      if (record.conversationId === conversationId) this.messages.delete(key);
+    });
+  }
+
+  async getMeta<T>(key: ConversationMetaKey): Promise<T | undefined> {
+    return this.meta.get(key) as T | undefined;
+  }
+
+  async setMeta<T>(key: ConversationMetaKey, value: T): Promise<void> {
+    this.meta.set(key, value);
+  }
+
+  async clear(): Promise<void> {
+    this.messages.clear();
+    this.meta.clear();
+  }
+}
+
+// One store per session, so the in-memory fallback keeps its data while the page is open
+const sessionStores = new Map<string, ConversationStore>();
+
+/**
+ * Get the store for a session's conversations
+ */
+export function getConversationStore(sessionId: string): ConversationStore {
+  let store = sessionStores.get(sessionId);
+  if (!store) {
+    store = typeof indexedDB === 'undefined'
+      ? new InMemoryConversationStore(sessionId)
+      : new IndexedDBConversationStore(sessionId);
+    sessionStores.set(sessionId, store);
+  }
+  return store;
+}
+
+/**
+ * Copy every message and metadata value from one session to another
+ */
+export async function copyConversations(from: ConversationStore, to: ConversationStore): Promise<void> {
+  const conversations = await from.loadConversations();
+  for (const [mode, messages] of Object.entries(conversations)) {
+    await to.putMessages(mode, messages);
+  }
+  for (const key of CONVERSATION_META_KEYS) {
+    const value = await from.getMeta(key);
+    if (value !== undefined) {
+      await to.setMeta(key, value);
+    }
+  }
+}
+
+/**
+ * Delete the conversations of every session
+ */
+export async function clearAllConversations(): Promise<void> {
+  if (typeof indexedDB === 'undefined') {
+    await Promise.all(Array.from(sessionStores.values()).map((store) => store.clear()));
+    return;
+  }
+  const db = await openDatabase();
+  const transaction = db.transaction([MESSAGES_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(MESSAGES_STORE).clear();
+  transaction.objectStore(META_STORE).clear();
+  return transactionDone(transaction);
+}
+
+/**
+ * Move conversations saved by older versions out of localStorage.
+ * The legacy keys are removed only after the new store has accepted everything.
+ */
+export async function migrateLegacyConversations(store: ConversationStore): Promise<boolean> {
+  const storedConversations = localStorage.getItem(LEGACY_CONVERSATIONS_KEY);
+  if (!storedConversations) return false;
+
+  let conversations: { [mode: string]: Message[] };
+  try {
+    conversations = JSON.parse(storedConversations);
+  } catch {
+    // Moving the unreadable blob aside frees the space it held
+    quarantineRecord(LEGACY_CONVERSATIONS_KEY, 'Invalid JSON', storedConversations);
+    localStorage.removeItem(LEGACY_CONVERSATIONS_KEY);
+    return false;
+  }
+
+  // Records are validated when the store is loaded, not here
+  for (const [mode, messages] of Object.entries(conversations || {})) {
+    if (Array.isArray(messages)) {
+      await store.putMessages(mode, messages);
+    }
+  }
+
+  const storedMode = localStorage.getItem(LEGACY_MODE_KEY);
+  if (storedMode) {
+    await store.setMeta('currentMode', storedMode);
+  }
+
+  const storedSummaries = localStorage.getItem(LEGACY_SUMMARIES_KEY);
+  if (storedSummaries) {
+    try {
+      await store.setMeta('contextSummaries', JSON.parse(storedSummaries));
+    } catch {
+      quarantineRecord(LEGACY_SUMMARIES_KEY, 'Invalid JSON', storedSummaries);
+    }
+  }
+
+  localStorage.removeItem(LEGACY_CONVERSATIONS_KEY);
+  localStorage.removeItem(LEGACY_MODE_KEY);
+  localStorage.removeItem(LEGACY_SUMMARIES_KEY);
+  return true;
+}
+
+/**
+ * Load every conversation and context summary, upgrading records written with an older
+ * schema version and quarantining (then deleting) any that fail validation
+ */
+export async function loadValidatedConversations(store: ConversationStore): Promise<{
+  conversations: { [mode: string]: Message[] };
+  contextSummaries: { [agentId: string]: ContextSummary };
+}> {
+  const version = (await store.getMeta<number>('schemaVersion')) ?? 0;
+  const stored = await store.loadConversations();
+  const conversations: { [mode: string]: Message[] } = {};
+
+  for (const [mode, records] of Object.entries(stored)) {
+    const invalidIds: string[] = [];
+    const migrated = records.flatMap((record) => {
+      try {
+        return [runMigrations(record, version, MESSAGE_MIGRATIONS)];
+      } catch (e) {
+        quarantineRecord(`conversation:${mode}`, `Migration from v${version} failed: ${e instanceof Error ? e.message : e}`, record);
+        invalidIds.push(record.id);
+        return [];
+      }
+    });
+    conversations[mode] = validateRecords<Message>(`conversation:${mode}`, migrated, messageSchema, (record) => {
+      const id = (record as Partial<Message> | null)?.id;
+      if (typeof id === 'string') invalidIds.push(id);
+    });
+
+    for (const id of invalidIds) {
+      await store.deleteMessage(mode, id);
+    }
+    if (version < MESSAGES_SCHEMA_VERSION) {
+      await store.putMessages(mode, conversations[mode]);
+    }
+  }
+
+  if (version < MESSAGES_SCHEMA_VERSION) {
+    await store.setMeta('schemaVersion', MESSAGES_SCHEMA_VERSION);
+  }
+
+  // A bad summary is simply regenerated on the next long turn
+  const storedSummaries = (await store.getMeta<{ [agentId: string]: unknown }>('contextSummaries')) || {};
+  const contextSummaries: { [agentId: string]: ContextSummary } = {};
+  Object.entries(storedSummaries).forEach(([agentId, summary]) => {
+    const result = contextSummarySchema.safeParse(summary);
+    if (result.success) {
+      contextSummaries[agentId] = result.data as ContextSummary;
+    } else {
+      quarantineRecord(`context-summary:${agentId}`, 'Invalid context summary', summary);
+    }
+  });
+
+  return { conversations, contextSummaries };
+}
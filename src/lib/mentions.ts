@@ -0,0 +1,78 @@
+import { AgentConfig } from '@/types/agent';
+
+// Long enough for any agent name; stops a stray "@" from turning the rest of the text into a query
+const MAX_MENTION_QUERY_LENGTH = 40;
+
+/**
+ * An "@name" being typed at the caret, to offer completions for
+ */
+export interface MentionQuery {
+  /** Index of the "@" */
+  start: number;
+  /** Text typed after the "@" so far */
+  query: string;
+}
+
+function isBoundary(char: string | undefined): boolean {
+  return char === undefined || !/[\p{L}\p{N}_]/u.test(char);
+}
+
+/**
+ * IDs of the agents mentioned as "@Name" in a message, in order of first mention.
+ * Names are matched case-insensitively, longest first, so "@Ana Lyst" wins over "@Ana".
+ */
+export function parseMentions(content: string, agents: AgentConfig[]): string[] {
+  const byLength = agents.filter((agent) => agent.name.trim()).sort((a, b) => b.name.length - a.name.length);
+  const lower = content.toLowerCase();
+  const mentions: string[] = [];
+
+  for (let index = lower.indexOf('@'); index !== -1; index = lower.indexOf('@', index + 1)) {
+    if (index > 0 && !isBoundary(content[index - 1])) continue;
+    const agent = byLength.find((candidate) => {
+      const name = candidate.name.trim().toLowerCase();
+      return lower.startsWith(name, index + 1) && isBoundary(content[index + 1 + name.length]);
+    });
+    if (agent && !mentions.includes(agent.id)) {
+      mentions.push(agent.id);
+    }
+  }
+  return mentions;
+}
+
+/**
+ * The mention being typed just before the caret, if any
+ */
+export function getMentionQuery(text: string, caret: number): MentionQuery | null {
+  const start = text.lastIndexOf('@', caret - 1);
+  if (start === -1 || caret - start - 1 > MAX_MENTION_QUERY_LENGTH) return null;
+  if (start > 0 && !isBoundary(text[start - 1])) return null;
+  const query = text.slice(start + 1, caret);
+  if (query.includes('\n') || query.startsWith(' ')) return null;
+  return { start, query };
+}
+
+/**
+ * Agents whose names complete a mention query
+ */
+export function getMentionSuggestions(query: string, agents: AgentConfig[]): AgentConfig[] {
+  const wanted = query.toLowerCase();
+  return agents.filter((agent) => agent.name.toLowerCase().startsWith(wanted));
+}
+
+/**
+ * Replace the query being typed with the agent's full mention
+ * @returns the new text and where the caret goes
+ */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  caret: number,
+  agent: AgentConfig
+): { text: string; caret: number } {
+  const inserted = `@${agent.name} `;
+  const after = text.slice(caret).replace(/^ /, '');
+  return {
+    text: `${text.slice(0, mention.start)}${inserted}${after}`,
+    caret: mention.start + inserted.length,
+  };
+}
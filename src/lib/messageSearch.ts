@@ -0,0 +1,154 @@
+import { Message } from '@/types/agent';
+import { ChatSession } from '@/types/session';
+import { ConversationMode } from './conversationStateManager';
+import { getConversationStore } from './conversationStore';
+import { isAgentWhisper } from './whispers';
+
+// Enough to scan by eye; narrowing the query beats scrolling
+const MAX_RESULTS = 100;
+
+const SNIPPET_RADIUS = 60;
+
+export interface SearchFilters {
+  /** Messages sent by, sent to, or in a private chat with this agent */
+  agentId?: string;
+  sender?: string;
+  recipient?: string;
+  whisper?: 'any' | 'only' | 'exclude';
+  /** Inclusive bounds, as timestamps */
+  from?: number;
+  to?: number;
+}
+
+export interface SearchDocument {
+  sessionId: string;
+  sessionName: string;
+  mode: ConversationMode;
+  message: Message;
+}
+
+export interface SearchResult extends SearchDocument {
+  /** Excerpt around the first match */
+  snippet: string;
+  /** Ranges in `snippet` to highlight, as [start, end) offsets */
+  highlights: Array<[number, number]>;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+function isWhisper(document: SearchDocument): boolean {
+  return document.message.recipient !== 'everyone';
+}
+
+/**
+ * Inverted index over every message in every session. Query terms must all match,
+ * by word prefix, so "kan" finds "Kant" and "Kantian".
+ */
+export class MessageSearchIndex {
+  private documents: SearchDocument[] = [];
+  private postings: Map<string, Set<number>> = new Map();
+
+  add(document: SearchDocument): void {
+    const index = this.documents.push(document) - 1;
+    new Set(tokenize(document.message.content)).forEach((token) => {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Set();
+        this.postings.set(token, posting);
+      }
+      posting.add(index);
+    });
+  }
+
+  get size(): number {
+    return this.documents.length;
+  }
+
+  private matchTerm(term: string): Set<number> {
+    const matches = new Set<number>();
+    this.postings.forEach((posting, token) => {
+      if (token.startsWith(term)) {
+        posting.forEach((index) => matches.add(index));
+      }
+    });
+    return matches;
+  }
+
+  private matchesFilters(document: SearchDocument, filters: SearchFilters): boolean {
+    const { message, mode } = document;
+    if (filters.agentId && message.sender !== filters.agentId && message.recipient !== filters.agentId && mode !== filters.agentId) {
+      return false;
+    }
+    if (filters.sender && message.sender !== filters.sender) return false;
+    if (filters.recipient && message.recipient !== filters.recipient) return false;
+    if (filters.whisper === 'only' && !isWhisper(document)) return false;
+    if (filters.whisper === 'exclude' && isWhisper(document)) return false;
+    if (filters.from !== undefined && message.timestamp < filters.from) return false;
+    if (filters.to !== undefined && message.timestamp > filters.to) return false;
+    return true;
+  }
+
+  /**
+   * Newest matches first. An empty query lists everything that passes the filters.
+   */
+  search(query: string, filters: SearchFilters = {}): SearchResult[] {
+    const terms = tokenize(query);
+    let candidates: number[];
+    if (terms.length === 0) {
+      candidates = this.documents.map((_, index) => index);
+    } else {
+      const sets = terms.map((term) => this.matchTerm(term));
+      candidates = Array.from(sets[0]).filter((index) => sets.every((set) => set.has(index)));
+    }
+
+    return candidates
+      .map((index) => this.documents[index])
+      .filter((document) => this.matchesFilters(document, filters))
+      .sort((a, b) => b.message.timestamp - a.message.timestamp)
+      .slice(0, MAX_RESULTS)
+      .map((document) => ({ ...document, ...buildSnippet(document.message.content, terms) }));
+  }
+}
+
+/**
+ * Cut an excerpt around the first matching word and mark every matching word in it
+ */
+function buildSnippet(content: string, terms: string[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const words = Array.from(content.matchAll(/[\p{L}\p{N}]+/gu));
+  const isMatch = (word: string) => terms.some((term) => word.toLowerCase().startsWith(term));
+  const first = words.find((word) => isMatch(word[0]));
+
+  const start = first?.index !== undefined ? Math.max(0, first.index - SNIPPET_RADIUS) : 0;
+  const end = Math.min(content.length, (first?.index ?? 0) + SNIPPET_RADIUS * 2);
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${content.slice(start, end)}${end < content.length ? '…' : ''}`;
+
+  const highlights = words
+    .filter((word) => word.index !== undefined && word.index >= start && word.index + word[0].length <= end && isMatch(word[0]))
+    .map((word): [number, number] => {
+      const offset = (word.index as number) - start + prefix.length;
+      return [offset, offset + word[0].length];
+    });
+
+  return { snippet, highlights };
+}
+
+/**
+ * Index every stored message of the given sessions. Built fresh when search opens,
+ * so it always reflects the latest edits and deletions. Whispers between agents are
+ * left out of sessions where the user hasn't chosen to see them.
+ */
+export async function buildSearchIndex(sessions: ChatSession[]): Promise<MessageSearchIndex> {
+  const index = new MessageSearchIndex();
+  for (const session of sessions) {
+    const conversations = await getConversationStore(session.id).loadConversations();
+    Object.entries(conversations).forEach(([mode, messages]) => {
+      messages
+        .filter((message) => session.observeWhispers || !isAgentWhisper(message))
+        .forEach((message) => index.add({ sessionId: session.id, sessionName: session.name, mode, message }));
+    });
+  }
+  return index;
+}
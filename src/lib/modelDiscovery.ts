@@ -0,0 +1,184 @@
+import { AgentConfig, KEYLESS_PROVIDERS, PROVIDER_MODELS } from '@/types/agent';
+import { ApiError, getOpenAICompatibleHeaders, isAbortError, resolveModelsUrl } from './apiClients';
+
+const MODEL_CACHE_STORAGE_KEY = 'coffeehouse-model-cache';
+
+/** Discovered lists are refreshed once a day unless the user asks sooner */
+const MODEL_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type ModelSource = 'live' | 'cache' | 'static';
+
+export interface ModelDiscoveryResult {
+  models: string[];
+  source: ModelSource;
+  /** Why the live lookup failed, when falling back to the cache or static list */
+  error?: string;
+}
+
+interface CachedModelList {
+  models: string[];
+  fetchedAt: number;
+}
+
+interface OpenAIModelList {
+  data?: Array<{ id: string }>;
+}
+
+interface GoogleModelList {
+  models?: Array<{ name: string; supportedGenerationMethods?: string[] }>;
+}
+
+interface OllamaTagList {
+  models?: Array<{ name: string }>;
+}
+
+// OpenAI lists embeddings, audio and image models alongside chat models
+const OPENAI_CHAT_MODEL_PATTERN = /^(gpt-|chatgpt-|o\d)/;
+const OPENAI_NON_CHAT_PATTERN = /(audio|realtime|transcribe|tts|image|search|embedding)/;
+
+/**
+ * Cache key per endpoint rather than per key, so agents sharing a provider share its list
+ */
+function getCacheKey(agent: AgentConfig): string {
+  if (agent.provider === 'ollama' || agent.provider === 'openai-compatible') {
+    return `${agent.provider}|${agent.baseUrl?.trim().replace(/\/$/, '') || ''}`;
+  }
+  return agent.provider;
+}
+
+function loadModelCache(): Record<string, CachedModelList> {
+  try {
+    const stored = localStorage.getItem(MODEL_CACHE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveCachedModels(cacheKey: string, models: string[]): void {
+  const cache = loadModelCache();
+  cache[cacheKey] = { models, fetchedAt: Date.now() };
+  localStorage.setItem(MODEL_CACHE_STORAGE_KEY, JSON.stringify(cache));
+}
+
+export function clearModelCache(): void {
+  localStorage.removeItem(MODEL_CACHE_STORAGE_KEY);
+}
+
+/**
+ * Best list available without a network request: the cache (even if stale), else the static list
+ */
+export function getKnownModels(agent: AgentConfig): ModelDiscoveryResult {
+  const cached = loadModelCache()[getCacheKey(agent)];
+  if (cached?.models.length) {
+    return { models: cached.models, source: 'cache' };
+  }
+  return { models: [...PROVIDER_MODELS[agent.provider]], source: 'static' };
+}
+
+async function fetchModelList<T>(url: string, headers: Record<string, string>, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, { headers, signal });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(
+      errorData.error?.message || `Model list request failed: ${response.status}`,
+      response.status
+    );
+  }
+  return response.json();
+}
+
+/**
+ * Query the provider's list-models endpoint. Returns null for providers without one.
+ */
+async function fetchProviderModels(agent: AgentConfig, signal?: AbortSignal): Promise<string[] | null> {
+  switch (agent.provider) {
+    case 'openai': {
+      const data = await fetchModelList<OpenAIModelList>('https://api.openai.com/v1/models', {
+        'Authorization': `Bearer ${agent.apiKey}`,
+      }, signal);
+      return (data.data || [])
+        .map((model) => model.id)
+        .filter((id) => OPENAI_CHAT_MODEL_PATTERN.test(id) && !OPENAI_NON_CHAT_PATTERN.test(id));
+    }
+    case 'anthropic': {
+      const data = await fetchModelList<OpenAIModelList>('https://api.anthropic.com/v1/models?limit=100', {
+        'x-api-key': agent.apiKey,
+        'anthropic-version': '2023-06-01',
+      }, signal);
+      return (data.data || []).map((model) => model.id);
+    }
+    case 'google': {
+      const data = await fetchModelList<GoogleModelList>(
+        `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${encodeURIComponent(agent.apiKey)}`,
+        {},
+        signal
+      );
+      return (data.models || [])
+        .filter((model) => model.supportedGenerationMethods?.includes('generateContent'))
+        .map((model) => model.name.replace(/^models\//, ''));
+    }
+    case 'xai': {
+      const data = await fetchModelList<OpenAIModelList>('https://api.x.ai/v1/models', {
+        'Authorization': `Bearer ${agent.apiKey}`,
+      }, signal);
+      return (data.data || []).map((model) => model.id);
+    }
+    case 'ollama': {
+      // /api/tags lists the models actually pulled on this machine
+      const baseUrl = agent.baseUrl?.replace(/\/$/, '') || 'http://localhost:11434';
+      const data = await fetchModelList<OllamaTagList>(`${baseUrl}/api/tags`, {}, signal);
+      return (data.models || []).map((model) => model.name);
+    }
+    case 'openai-compatible': {
+      if (!agent.baseUrl?.trim()) return null;
+      const data = await fetchModelList<OpenAIModelList>(
+        resolveModelsUrl(agent.baseUrl),
+        getOpenAICompatibleHeaders(agent),
+        signal
+      );
+      return (data.data || []).map((model) => model.id);
+    }
+    default:
+      // HuggingFace goes through our proxy, which serves a fixed set of models
+      return null;
+  }
+}
+
+/**
+ * Discover the models available to an agent. Uses a fresh cache entry when present,
+ * otherwise queries the provider and falls back to the cache or static list on failure.
+ */
+export async function discoverModels(
+  agent: AgentConfig,
+  options: { forceRefresh?: boolean; signal?: AbortSignal } = {}
+): Promise<ModelDiscoveryResult> {
+  const cacheKey = getCacheKey(agent);
+  const cached = loadModelCache()[cacheKey];
+
+  if (!options.forceRefresh && cached?.models.length && Date.now() - cached.fetchedAt < MODEL_CACHE_TTL_MS) {
+    return { models: cached.models, source: 'cache' };
+  }
+
+  if (!KEYLESS_PROVIDERS.includes(agent.provider) && !agent.apiKey.trim()) {
+    return getKnownModels(agent);
+  }
+
+  try {
+    const models = await fetchProviderModels(agent, options.signal);
+    if (!models || models.length === 0) {
+      return getKnownModels(agent);
+    }
+    const sorted = [...new Set(models)].sort((a, b) => a.localeCompare(b));
+    saveCachedModels(cacheKey, sorted);
+    return { models: sorted, source: 'live' };
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    return {
+      ...getKnownModels(agent),
+      error: error instanceof Error ? error.message : 'Could not load models',
+    };
+  }
+}
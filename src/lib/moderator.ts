@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { AgentConfig, Message } from '@/types/agent';
+import { callAgent } from './apiClients';
+import { formatTranscript } from './contextBuilder';
+
+// The moderator only needs the drift of the conversation, not all of it
+const MODERATOR_TRANSCRIPT_MESSAGES = 20;
+
+const MODERATOR_MAX_OUTPUT_TOKENS = 200;
+
+const MODERATOR_PROMPT =
+  'You moderate a lively group conversation in a coffeehouse. After each message you decide who speaks next, ' +
+  'so the discussion flows naturally: let people answer questions put to them, bring in quiet voices, and keep ' +
+  'anyone from dominating. You may give the next speaker a short private nudge to steer the topic. When the ' +
+  'conversation has reached a natural close or is going in circles, end it.\n\n' +
+  'Answer with a single JSON object and nothing else, in one of these shapes:\n' +
+  '{"action": "speak", "speaker": "<name>", "nudge": "<optional short direction>", "reason": "<why>"}\n' +
+  '{"action": "end", "reason": "<why>"}';
+
+export type ModeratorDecision =
+  | { action: 'speak'; agent: AgentConfig; nudge?: string; reason: string }
+  | { action: 'end'; reason: string };
+
+export interface ModeratorResult {
+  /** Null when the reply could not be understood; `problem` says why */
+  decision: ModeratorDecision | null;
+  problem?: string;
+  cost: number;
+  tokens: number;
+}
+
+const decisionSchema = z.object({
+  action: z.enum(['speak', 'end']),
+  speaker: z.string().optional(),
+  nudge: z.string().optional(),
+  reason: z.string().optional(),
+});
+
+/**
+ * Read the moderator's JSON choice, tolerating code fences or prose around it.
+ * The speaker may be given by name or ID.
+ */
+export function parseModeratorDecision(
+  text: string,
+  speakers: AgentConfig[]
+): { decision: ModeratorDecision | null; problem?: string } {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return { decision: null, problem: 'no JSON object in the reply' };
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return { decision: null, problem: 'the reply is not valid JSON' };
+  }
+  const result = decisionSchema.safeParse(raw);
+  if (!result.success) return { decision: null, problem: 'the reply has no valid action' };
+
+  const { action, speaker, nudge, reason } = result.data as z.infer<typeof decisionSchema>;
+  if (action === 'end') {
+    return { decision: { action: 'end', reason: reason?.trim() || 'The moderator ended the conversation' } };
+  }
+
+  const wanted = speaker?.trim().replace(/^@/, '').toLowerCase();
+  const agent = speakers.find((candidate) => candidate.id.toLowerCase() === wanted || candidate.name.toLowerCase() === wanted);
+  if (!agent) return { decision: null, problem: `"${speaker ?? ''}" is not one of the speakers` };
+
+  return {
+    decision: {
+      action: 'speak',
+      agent,
+      nudge: nudge?.trim() || undefined,
+      reason: reason?.trim() || `The moderator chose ${agent.name}`,
+    },
+  };
+}
+
+/**
+ * Ask the moderator who should speak next, given the recent group transcript
+ */
+export async function askModerator(
+  moderator: AgentConfig,
+  speakers: AgentConfig[],
+  history: Message[],
+  options: { agents: AgentConfig[]; signal?: AbortSignal }
+): Promise<ModeratorResult> {
+  const recent = history.filter((msg) => msg.recipient === 'everyone').slice(-MODERATOR_TRANSCRIPT_MESSAGES);
+  const response = await callAgent(
+    {
+      ...moderator,
+      personality: MODERATOR_PROMPT,
+      generation: { ...moderator.generation, maxOutputTokens: MODERATOR_MAX_OUTPUT_TOKENS, temperature: 0.3 },
+    },
+    [{
+      id: `moderator-request-${Date.now()}`,
+      sender: 'user',
+      recipient: moderator.id,
+      content: [
+        `Speakers: ${speakers.map((agent) => `${agent.name} (${agent.personality.split('\n')[0].slice(0, 120)})`).join('; ')}`,
+        `Recent conversation:\n${recent.length ? formatTranscript(recent, options.agents) : '(nothing yet)'}`,
+        'Who speaks next?',
+      ].join('\n\n'),
+      timestamp: Date.now(),
+    }],
+    { signal: options.signal }
+  );
+
+  return { ...parseModeratorDecision(response.content, speakers), cost: response.cost ?? 0, tokens: response.tokens ?? 0 };
+}
@@ -0,0 +1,337 @@
+import { z } from 'zod';
+import { AgentConfig } from '@/types/agent';
+import { ChatSession } from '@/types/session';
+
+const AGENTS_STORAGE_KEY = 'coffeehouse-agents';
+const SESSIONS_STORAGE_KEY = 'coffeehouse-sessions';
+const ACTIVE_SESSION_STORAGE_KEY = 'coffeehouse-active-session';
+const QUARANTINE_STORAGE_KEY = 'coffeehouse-quarantine';
+
+// Keep the quarantine from crowding out real data in localStorage
+const MAX_QUARANTINED_RECORDS = 50;
+
+// Keys holding data saved by a newer build. Validation strips the fields this build doesn't
+// know, so saving back to them would destroy the newer data; they stay read-only instead.
+const newerVersionKeys = new Set<string>();
+
+/**
+ * Versioned wrapper around everything we persist. Values saved before envelopes existed
+ * are treated as version 0 and upgraded through the migration pipeline.
+ */
+export interface PersistedEnvelope<T> {
+  version: number;
+  savedAt: number;
+  data: T;
+}
+
+/**
+ * One step of a migration pipeline, upgrading data from `version - 1` to `version`
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  up: (data: unknown) => unknown;
+}
+
+export interface QuarantinedRecord {
+  source: string;
+  reason: string;
+  raw: unknown;
+  quarantinedAt: number;
+}
+
+const generationSettingsSchema = z.object({
+  temperature: z.number().optional(),
+  topP: z.number().optional(),
+  maxOutputTokens: z.number().optional(),
+  stopSequences: z.array(z.string()).optional(),
+  presencePenalty: z.number().optional(),
+  frequencyPenalty: z.number().optional(),
+  seed: z.number().optional(),
+});
+
+const memoryPolicySchema = z.object({
+  visibility: z.enum(['shared', 'private-only', 'group-only', 'isolated', 'windowed']),
+  groupWindow: z.number().int().positive().optional(),
+});
+
+export const agentConfigSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  personality: z.string(),
+  provider: z.enum(['openai', 'anthropic', 'google', 'xai', 'ollama', 'huggingface', 'openai-compatible']),
+  model: z.string(),
+  // Cosmetic or optional fields get defaults rather than failing the whole agent
+  apiKey: z.string().default(''),
+  color: z.string().default('primary'),
+  emoji: z.string().default('🤖'),
+  baseUrl: z.string().optional(),
+  customHeaders: z.record(z.string()).optional(),
+  generation: generationSettingsSchema.optional(),
+  budgetLimit: z.number().optional(),
+  memoryPolicy: memoryPolicySchema.optional(),
+});
+
+export const messageSchema = z.object({
+  id: z.string().min(1),
+  sender: z.string().min(1),
+  recipient: z.string().min(1),
+  content: z.string(),
+  timestamp: z.number(),
+  versions: z.array(z.string()).optional(),
+  activeVersion: z.number().int().nonnegative().optional(),
+  editedAt: z.number().optional(),
+  mentions: z.array(z.string()).optional(),
+  inReplyTo: z.string().optional(),
+  autoTurn: z.boolean().optional(),
+});
+
+export const contextSummarySchema = z.object({
+  content: z.string(),
+  coveredUntil: z.number(),
+  messageCount: z.number(),
+  updatedAt: z.number(),
+});
+
+export const sessionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  archived: z.boolean().default(false),
+  agents: z.array(agentConfigSchema),
+  autoRoundLimit: z.number().nullable().default(null),
+  autoRoundCount: z.number().default(0),
+  parentId: z.string().optional(),
+  branchFromMessageId: z.string().optional(),
+  turnStrategy: z.object({
+    strategy: z.enum(['round-robin', 'random', 'least-recent', 'weighted', 'addressed']),
+    allowRepeats: z.boolean().optional(),
+    weights: z.record(z.number().nonnegative()).optional(),
+    moderatorId: z.string().optional(),
+  }).optional(),
+  agentWhispers: z.boolean().optional(),
+  observeWhispers: z.boolean().optional(),
+  stopConditions: z.object({
+    keyword: z.string().optional(),
+    endSignal: z.boolean().optional(),
+    repetitionWindow: z.number().int().nonnegative().optional(),
+    maxMinutes: z.number().nonnegative().optional(),
+    maxTokens: z.number().int().nonnegative().optional(),
+    maxCost: z.number().nonnegative().optional(),
+  }).optional(),
+});
+
+export const AGENTS_SCHEMA_VERSION = 1;
+
+export const AGENT_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    // The bare array is already the v1 shape; the envelope is added on the next save
+    description: 'Adopt the versioned envelope for the agent list',
+    up: (data) => data,
+  },
+];
+
+export const SESSIONS_SCHEMA_VERSION = 1;
+
+export const SESSION_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Session list introduced with the versioned envelope',
+    up: (data) => data,
+  },
+];
+
+/**
+ * Message records live in IndexedDB; their schema version is stored alongside them
+ */
+export const MESSAGES_SCHEMA_VERSION = 1;
+
+export const MESSAGE_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Messages moved from localStorage to IndexedDB unchanged',
+    up: (data) => data,
+  },
+];
+
+function isEnvelope(value: unknown): value is PersistedEnvelope<unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as PersistedEnvelope<unknown>).version === 'number' && 'data' in value;
+}
+
+/**
+ * Run every migration newer than `fromVersion`, in order
+ */
+export function runMigrations(data: unknown, fromVersion: number, migrations: Migration[]): unknown {
+  return [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => migration.up(current), data);
+}
+
+export function createEnvelope<T>(version: number, data: T): PersistedEnvelope<T> {
+  return { version, savedAt: Date.now(), data };
+}
+
+export function getQuarantinedRecords(): QuarantinedRecord[] {
+  try {
+    const stored = localStorage.getItem(QUARANTINE_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Set aside a record that failed to parse, migrate or validate, so it can be inspected
+ * (or recovered by hand) instead of crashing the app
+ */
+export function quarantineRecord(source: string, reason: string, raw: unknown): void {
+  console.warn(`[PersistedState] Quarantined record from ${source}: ${reason}`);
+  const records = [...getQuarantinedRecords(), { source, reason, raw, quarantinedAt: Date.now() }];
+  try {
+    localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify(records.slice(-MAX_QUARANTINED_RECORDS)));
+  } catch (e) {
+    // A full localStorage must not turn a bad record into a crash
+    console.error('[PersistedState] Could not save quarantined record:', e);
+  }
+}
+
+export function clearQuarantine(): void {
+  localStorage.removeItem(QUARANTINE_STORAGE_KEY);
+}
+
+export function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validate a list of records, quarantining the ones that don't match the schema.
+ * (zod's inferred types are all-optional without strictNullChecks, hence the explicit T.)
+ */
+export function validateRecords<T>(
+  source: string,
+  records: unknown,
+  schema: z.ZodTypeAny,
+  onInvalid?: (record: unknown) => void
+): T[] {
+  if (!Array.isArray(records)) {
+    quarantineRecord(source, 'Expected a list of records', records);
+    return [];
+  }
+  return records.flatMap((record) => {
+    const result = schema.safeParse(record);
+    if (result.success) return [result.data as T];
+    quarantineRecord(source, describeIssues(result.error), record);
+    onInvalid?.(record);
+    return [];
+  });
+}
+
+/**
+ * Read a versioned list from localStorage, migrate it and validate each record.
+ * Returns null when nothing usable is stored; re-saves data written with an older version.
+ * Data written by a newer build is quarantined as a raw copy, loaded for this visit only,
+ * and never overwritten.
+ */
+function loadVersionedList<T>(
+  storageKey: string,
+  currentVersion: number,
+  migrations: Migration[],
+  schema: z.ZodTypeAny
+): T[] | null {
+  const stored = localStorage.getItem(storageKey);
+  if (!stored) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch {
+    quarantineRecord(storageKey, 'Invalid JSON', stored);
+    localStorage.removeItem(storageKey);
+    return null;
+  }
+
+  const version = isEnvelope(parsed) ? parsed.version : 0;
+  const data = isEnvelope(parsed) ? parsed.data : parsed;
+
+  if (version > currentVersion) {
+    // Saved by a newer build; leave it untouched rather than downgrading it
+    const reason = `Saved with schema v${version}, newer than v${currentVersion}; kept read-only`;
+    const alreadyQuarantined = getQuarantinedRecords().some(
+      (record) => record.source === storageKey && record.reason === reason
+    );
+    if (!alreadyQuarantined) {
+      quarantineRecord(storageKey, reason, parsed);
+    }
+    newerVersionKeys.add(storageKey);
+  }
+
+  let migrated: unknown;
+  try {
+    migrated = runMigrations(data, version, migrations);
+  } catch (e) {
+    quarantineRecord(storageKey, `Migration from v${version} failed: ${e instanceof Error ? e.message : e}`, parsed);
+    return null;
+  }
+
+  const records = validateRecords<T>(storageKey, migrated, schema);
+  if (records.length === 0) return null;
+
+  if (version < currentVersion) {
+    localStorage.setItem(storageKey, JSON.stringify(createEnvelope(currentVersion, records)));
+  }
+  return records;
+}
+
+/**
+ * Load the configured agents, upgrading older formats.
+ * Returns null when nothing usable is stored, which sends the user back to onboarding.
+ * New sessions start with this roster.
+ */
+export function loadPersistedAgents(): AgentConfig[] | null {
+  return loadVersionedList<AgentConfig>(AGENTS_STORAGE_KEY, AGENTS_SCHEMA_VERSION, AGENT_MIGRATIONS, agentConfigSchema);
+}
+
+/**
+ * Write a versioned list, unless the stored copy came from a newer build
+ */
+function saveVersionedList<T>(storageKey: string, currentVersion: number, records: T[]): void {
+  if (newerVersionKeys.has(storageKey)) {
+    console.warn(`[PersistedState] Not saving ${storageKey}: it holds data from a newer version of the app`);
+    return;
+  }
+  localStorage.setItem(storageKey, JSON.stringify(createEnvelope(currentVersion, records)));
+}
+
+export function savePersistedAgents(agents: AgentConfig[]): void {
+  saveVersionedList(AGENTS_STORAGE_KEY, AGENTS_SCHEMA_VERSION, agents);
+}
+
+/**
+ * Load the chat sessions, or null before the first session has been created
+ */
+export function loadPersistedSessions(): ChatSession[] | null {
+  return loadVersionedList<ChatSession>(SESSIONS_STORAGE_KEY, SESSIONS_SCHEMA_VERSION, SESSION_MIGRATIONS, sessionSchema);
+}
+
+export function savePersistedSessions(sessions: ChatSession[]): void {
+  saveVersionedList(SESSIONS_STORAGE_KEY, SESSIONS_SCHEMA_VERSION, sessions);
+}
+
+export function loadActiveSessionId(): string | null {
+  return localStorage.getItem(ACTIVE_SESSION_STORAGE_KEY);
+}
+
+export function saveActiveSessionId(sessionId: string): void {
+  localStorage.setItem(ACTIVE_SESSION_STORAGE_KEY, sessionId);
+}
+
+export function clearPersistedSessions(): void {
+  localStorage.removeItem(SESSIONS_STORAGE_KEY);
+  localStorage.removeItem(ACTIVE_SESSION_STORAGE_KEY);
+  // Nothing newer is left to protect once the user has cleared it
+  newerVersionKeys.delete(SESSIONS_STORAGE_KEY);
+}
@@ -0,0 +1,99 @@
+import { ApiProvider, TokenUsage } from '@/types/agent';
+
+/**
+ * USD price per one million tokens
+ */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+const PRICING_STORAGE_KEY = 'coffeehouse-model-pricing';
+
+/**
+ * Published list prices at the time of writing. Local and free-tier models cost nothing.
+ * Retired models stay listed so agents saved with them still get estimates.
+ * Override any entry (or add custom models) through the pricing editor in Settings.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+  'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-7-sonnet-20250219': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-sonnet-20241022': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.0-flash-exp': { inputPerMillion: 0, outputPerMillion: 0 },
+  'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+  'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+  'grok-3': { inputPerMillion: 3, outputPerMillion: 15 },
+  'grok-3-mini': { inputPerMillion: 0.3, outputPerMillion: 0.5 },
+  'grok-beta': { inputPerMillion: 5, outputPerMillion: 15 },
+  'grok-vision-beta': { inputPerMillion: 5, outputPerMillion: 15 },
+  'llama3': { inputPerMillion: 0, outputPerMillion: 0 },
+  'llama3.1': { inputPerMillion: 0, outputPerMillion: 0 },
+  'llama3.2': { inputPerMillion: 0, outputPerMillion: 0 },
+  'mistral': { inputPerMillion: 0, outputPerMillion: 0 },
+  'phi3': { inputPerMillion: 0, outputPerMillion: 0 },
+  'qwen2.5': { inputPerMillion: 0, outputPerMillion: 0 },
+  'TinyLlama/TinyLlama-1.1B-Chat-v1.0': { inputPerMillion: 0, outputPerMillion: 0 },
+  'Qwen/Qwen2.5-0.5B-Instruct': { inputPerMillion: 0, outputPerMillion: 0 },
+  'meta-llama/Llama-3.2-1B-Instruct': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+const FREE_PRICING: ModelPricing = { inputPerMillion: 0, outputPerMillion: 0 };
+
+/**
+ * Load user-edited pricing overrides from localStorage
+ */
+export function loadPricingOverrides(): Record<string, ModelPricing> {
+  try {
+    const stored = localStorage.getItem(PRICING_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePricingOverrides(overrides: Record<string, ModelPricing>): void {
+  localStorage.setItem(PRICING_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+/**
+ * Pricing for a model: user override first, then the built-in table.
+ * Unknown models are treated as free, since we cannot guess their price.
+ */
+export function getModelPricing(model: string): ModelPricing {
+  const overrides = loadPricingOverrides();
+  return overrides[model] || DEFAULT_MODEL_PRICING[model] || FREE_PRICING;
+}
+
+/**
+ * Estimated USD cost of a single request
+ */
+export function estimateCost(provider: ApiProvider, model: string, usage: TokenUsage): number {
+  // Local models never incur provider charges, whatever the pricing table says
+  if (provider === 'ollama') return 0;
+
+  const pricing = getModelPricing(model);
+  return (
+    (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Format a USD amount, keeping sub-cent precision for small totals
+ */
+export function formatCost(amount: number): string {
+  if (amount === 0) return '$0.00';
+  if (amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
@@ -0,0 +1,96 @@
+import { ApiProvider } from '@/types/agent';
+
+export interface RetryPolicy {
+  /** Additional attempts after the first failure; 0 disables retries */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const RETRY_POLICY_STORAGE_KEY = 'coffeehouse-retry-policies';
+
+/**
+ * Defaults lean on each provider's failure profile: Anthropic returns 529 when overloaded,
+ * HuggingFace returns 503 while a model cold-starts, and a local Ollama rarely benefits from waiting.
+ */
+export const DEFAULT_RETRY_POLICIES: Record<ApiProvider, RetryPolicy> = {
+  openai: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 20000 },
+  anthropic: { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 30000 },
+  google: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 20000 },
+  xai: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 20000 },
+  ollama: { maxRetries: 1, baseDelayMs: 500, maxDelayMs: 5000 },
+  huggingface: { maxRetries: 3, baseDelayMs: 2000, maxDelayMs: 30000 },
+  'openai-compatible': { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 20000 },
+};
+
+/**
+ * Load user-edited retry policies from localStorage
+ */
+export function loadRetryPolicyOverrides(): Partial<Record<ApiProvider, RetryPolicy>> {
+  try {
+    const stored = localStorage.getItem(RETRY_POLICY_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveRetryPolicyOverrides(overrides: Partial<Record<ApiProvider, RetryPolicy>>): void {
+  localStorage.setItem(RETRY_POLICY_STORAGE_KEY, JSON.stringify(overrides));
+}
+
+export function getRetryPolicy(provider: ApiProvider): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICIES[provider], ...loadRetryPolicyOverrides()[provider] };
+}
+
+/**
+ * Parse a Retry-After header, which is either delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: half the window is fixed, half random,
+ * so parallel agents hitting the same rate limit don't retry in lockstep
+ */
+export function getBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const window = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(window / 2 + Math.random() * (window / 2));
+}
+
+/**
+ * Wait for the given time, rejecting early with an AbortError if the signal fires
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,111 @@
+import { AgentConfig } from '@/types/agent';
+import { ChatSession } from '@/types/session';
+import { ConversationSnapshot } from './conversationStateManager';
+import { DEFAULT_SESSION_ID, copyConversations, getConversationStore } from './conversationStore';
+import { MESSAGES_SCHEMA_VERSION } from './persistedState';
+import { clearSessionSpending } from './spendingTracker';
+import { ImportedTranscript } from './transcriptImport';
+
+function generateSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Next free "Chat N" name, so new sessions are told apart before the user renames them
+ */
+export function getNextSessionName(sessions: ChatSession[]): string {
+  const names = new Set(sessions.map((session) => session.name));
+  let index = sessions.length + 1;
+  while (names.has(`Chat ${index}`)) index++;
+  return `Chat ${index}`;
+}
+
+export function createSession(name: string, agents: AgentConfig[], id: string = generateSessionId()): ChatSession {
+  const now = Date.now();
+  return {
+    id,
+    name,
+    createdAt: now,
+    updatedAt: now,
+    archived: false,
+    agents,
+    autoRoundLimit: null,
+    autoRoundCount: 0,
+  };
+}
+
+/**
+ * The session that adopts conversations saved before sessions existed
+ */
+export function createDefaultSession(agents: AgentConfig[]): ChatSession {
+  return createSession('Chat 1', agents, DEFAULT_SESSION_ID);
+}
+
+/**
+ * Copy a session, including its transcripts, under a new ID
+ */
+export async function duplicateSession(session: ChatSession): Promise<ChatSession> {
+  const copy: ChatSession = {
+    ...createSession(`${session.name} (copy)`, session.agents.map((agent) => ({ ...agent }))),
+    autoRoundLimit: session.autoRoundLimit,
+    autoRoundCount: session.autoRoundCount,
+    turnStrategy: session.turnStrategy,
+    agentWhispers: session.agentWhispers,
+    observeWhispers: session.observeWhispers,
+    stopConditions: session.stopConditions,
+    // A copied branch stays next to the original in the branch tree
+    parentId: session.parentId,
+    branchFromMessageId: session.branchFromMessageId,
+  };
+  await copyConversations(getConversationStore(session.id), getConversationStore(copy.id));
+  return copy;
+}
+
+/**
+ * Start a branch of a session from a snapshot of its history. The branch keeps a link to its
+ * parent so the sidebar can show it among its siblings.
+ */
+export async function branchSession(
+  parent: ChatSession,
+  snapshot: ConversationSnapshot,
+  siblingCount: number
+): Promise<ChatSession> {
+  const branch: ChatSession = {
+    ...createSession(`${parent.name} · branch ${siblingCount + 1}`, parent.agents.map((agent) => ({ ...agent }))),
+    autoRoundLimit: parent.autoRoundLimit,
+    turnStrategy: parent.turnStrategy,
+    agentWhispers: parent.agentWhispers,
+    observeWhispers: parent.observeWhispers,
+    stopConditions: parent.stopConditions,
+    parentId: parent.id,
+    branchFromMessageId: snapshot.branchPoint.id,
+  };
+  const store = getConversationStore(branch.id);
+  for (const [mode, messages] of Object.entries(snapshot.states)) {
+    await store.putMessages(mode, messages);
+  }
+  await store.setMeta('currentMode', snapshot.mode);
+  await store.setMeta('contextSummaries', snapshot.contextSummaries);
+  // The snapshot comes from validated, current-version records
+  await store.setMeta('schemaVersion', MESSAGES_SCHEMA_VERSION);
+  return branch;
+}
+
+/**
+ * Create a session holding an imported transcript; the chat loads it through importStates on open
+ */
+export async function createImportedSession(imported: ImportedTranscript): Promise<ChatSession> {
+  const session = createSession(imported.name, imported.agents);
+  const store = getConversationStore(session.id);
+  for (const [mode, messages] of Object.entries(imported.states)) {
+    await store.putMessages(mode, messages);
+  }
+  await store.setMeta('currentMode', 'group');
+  await store.setMeta('schemaVersion', MESSAGES_SCHEMA_VERSION);
+  return session;
+}
+
+export async function deleteSessionConversations(sessionId: string): Promise<void> {
+  clearSessionSpending(sessionId);
+  await getConversationStore(sessionId).clear();
+}
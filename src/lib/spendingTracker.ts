@@ -0,0 +1,161 @@
+import { ConversationMode } from './conversationStateManager';
+import { DEFAULT_SESSION_ID } from './conversationStore';
+
+// Each key is suffixed with the session ID, e.g. "coffeehouse-spending:default"
+const SPENDING_STORAGE_KEY = 'coffeehouse-spending';
+const SESSION_BUDGET_STORAGE_KEY = 'coffeehouse-session-budget';
+
+export interface SpendingState {
+  byAgent: { [agentId: string]: number };
+  byConversation: { [mode: string]: number };
+  total: number;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;
+  reason?: string;
+}
+
+/**
+ * Keeps running estimated-cost totals per agent and per conversation,
+ * and answers whether a configured budget still allows another request
+ */
+export class SpendingTracker {
+  private byAgent: Map<string, number>;
+  private byConversation: Map<ConversationMode, number>;
+  private total: number;
+
+  constructor() {
+    this.byAgent = new Map();
+    this.byConversation = new Map();
+    this.total = 0;
+  }
+
+  /**
+   * Record the cost of one completed request
+   */
+  record(agentId: string, mode: ConversationMode, cost: number): void {
+    if (!cost) return;
+    this.byAgent.set(agentId, (this.byAgent.get(agentId) || 0) + cost);
+    this.byConversation.set(mode, (this.byConversation.get(mode) || 0) + cost);
+    this.total += cost;
+  }
+
+  getAgentTotal(agentId: string): number {
+    return this.byAgent.get(agentId) || 0;
+  }
+
+  getConversationTotal(mode: ConversationMode): number {
+    return this.byConversation.get(mode) || 0;
+  }
+
+  getSessionTotal(): number {
+    return this.total;
+  }
+
+  /**
+   * Check the session budget and, when given, the agent's own budget
+   */
+  checkBudget(sessionLimit: number | null, agent?: { id: string; name: string; budgetLimit?: number }): BudgetCheck {
+    if (sessionLimit !== null && this.total >= sessionLimit) {
+      return { allowed: false, reason: 'Session budget reached' };
+    }
+    if (agent?.budgetLimit !== undefined && this.getAgentTotal(agent.id) >= agent.budgetLimit) {
+      return { allowed: false, reason: `${agent.name} has reached its budget` };
+    }
+    return { allowed: true };
+  }
+
+  clear(): void {
+    this.byAgent.clear();
+    this.byConversation.clear();
+    this.total = 0;
+  }
+
+  /**
+   * Export totals for persistence
+   */
+  exportState(): SpendingState {
+    return {
+      byAgent: Object.fromEntries(this.byAgent),
+      byConversation: Object.fromEntries(this.byConversation),
+      total: this.total,
+    };
+  }
+
+  /**
+   * Import totals from persistence
+   */
+  importState(state: SpendingState): void {
+    this.byAgent = new Map(Object.entries(state.byAgent || {}));
+    this.byConversation = new Map(Object.entries(state.byConversation || {}));
+    this.total = state.total || 0;
+  }
+}
+
+/**
+ * Read a per-session value. The default session adopts the value saved before spending was kept per session.
+ */
+function readSessionValue(baseKey: string, sessionId: string): string | null {
+  const stored = localStorage.getItem(`${baseKey}:${sessionId}`);
+  if (stored !== null || sessionId !== DEFAULT_SESSION_ID) return stored;
+  return localStorage.getItem(baseKey);
+}
+
+function writeSessionValue(baseKey: string, sessionId: string, value: string | null): void {
+  if (value === null) {
+    localStorage.removeItem(`${baseKey}:${sessionId}`);
+  } else {
+    localStorage.setItem(`${baseKey}:${sessionId}`, value);
+  }
+  if (sessionId === DEFAULT_SESSION_ID) {
+    localStorage.removeItem(baseKey);
+  }
+}
+
+/**
+ * Spending totals saved for a session, or null when it has spent nothing yet
+ */
+export function loadSpending(sessionId: string): SpendingState | null {
+  const stored = readSessionValue(SPENDING_STORAGE_KEY, sessionId);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function saveSpending(sessionId: string, state: SpendingState): void {
+  writeSessionValue(SPENDING_STORAGE_KEY, sessionId, JSON.stringify(state));
+}
+
+/**
+ * Budget in USD for one session, or null when unlimited
+ */
+export function loadSessionBudget(sessionId: string): number | null {
+  try {
+    const stored = readSessionValue(SESSION_BUDGET_STORAGE_KEY, sessionId);
+    if (!stored) return null;
+    const parsed = parseFloat(stored);
+    return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSessionBudget(sessionId: string, limit: number | null): void {
+  writeSessionValue(SESSION_BUDGET_STORAGE_KEY, sessionId, limit === null ? null : String(limit));
+}
+
+/**
+ * Forget a deleted session's spending totals and budget
+ */
+export function clearSessionSpending(sessionId: string): void {
+  writeSessionValue(SPENDING_STORAGE_KEY, sessionId, null);
+  writeSessionValue(SESSION_BUDGET_STORAGE_KEY, sessionId, null);
+}
+
+/**
+ * Reset the spending totals of every session; budgets are kept
+ */
+export function clearAllSpending(): void {
+  Object.keys(localStorage)
+    .filter((key) => key === SPENDING_STORAGE_KEY || key.startsWith(`${SPENDING_STORAGE_KEY}:`))
+    .forEach((key) => localStorage.removeItem(key));
+}
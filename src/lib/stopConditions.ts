@@ -0,0 +1,128 @@
+import { AgentConfig, Message } from '@/types/agent';
+import { StopConditionId, StopConditions } from '@/types/session';
+import { formatCost } from './pricing';
+
+const END_LINE = /^\s*\/end\b(.*)$/im;
+
+// Share of distinct words two replies must have in common to count as near-duplicates
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+
+export const STOP_CONDITION_LABELS: Record<StopConditionId, string> = {
+  keyword: 'Keyword',
+  end_signal: 'End signal',
+  repetition: 'Repetition',
+  duration: 'Time limit',
+  tokens: 'Token cap',
+  cost: 'Cost cap',
+};
+
+/**
+ * What the auto conversation has used since it started
+ */
+export interface AutoRunStats {
+  startedAt: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface StopTrigger {
+  condition: StopConditionId;
+  reason: string;
+  /** Agent whose reply met the condition, if any */
+  agentId?: string;
+}
+
+/**
+ * Added to an agent's system prompt during auto conversation when agents may end it
+ */
+export function getEndSignalInstructions(): string {
+  return (
+    'If the conversation has reached its natural end, put "/end" and a short reason on its own line, ' +
+    'e.g. "/end we agreed on a plan". This stops the conversation for everyone, so only do it when nothing is left to say.'
+  );
+}
+
+/**
+ * Take an "/end reason" line out of a reply
+ * @returns the reply without it, and the reason when the agent ended the conversation
+ */
+export function parseEndSignal(reply: string): { content: string; endReason: string | null } {
+  const match = END_LINE.exec(reply);
+  if (!match) return { content: reply, endReason: null };
+  const content = reply.replace(END_LINE, '').replace(/\n{3,}/g, '\n\n').trim();
+  return { content, endReason: match[1].replace(/^[\s:,-]+/, '').trim() };
+}
+
+function distinctWords(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+}
+
+/**
+ * Share of distinct words two texts have in common, from 0 to 1
+ */
+export function replySimilarity(a: string, b: string): number {
+  const wordsA = distinctWords(a);
+  const wordsB = distinctWords(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) shared++;
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+/**
+ * Whether the last `window` replies are going in circles: each nearly repeats another of them
+ */
+export function isRepetitive(replies: Message[], window: number): boolean {
+  if (window < 2 || replies.length < window) return false;
+  const recent = replies.slice(-window);
+  return recent.every((reply, index) =>
+    recent.some((other, otherIndex) =>
+      otherIndex !== index && replySimilarity(reply.content, other.content) >= NEAR_DUPLICATE_SIMILARITY
+    )
+  );
+}
+
+/**
+ * Limits on time, tokens and cost, checked before each turn and after each reply
+ */
+export function checkRunLimits(conditions: StopConditions, stats: AutoRunStats, now = Date.now()): StopTrigger | null {
+  if (conditions.maxMinutes && now - stats.startedAt >= conditions.maxMinutes * 60_000) {
+    return { condition: 'duration', reason: `Ran for ${conditions.maxMinutes} minute(s)` };
+  }
+  if (conditions.maxTokens && stats.tokens >= conditions.maxTokens) {
+    return {
+      condition: 'tokens',
+      reason: `Used ${stats.tokens.toLocaleString()} of ${conditions.maxTokens.toLocaleString()} tokens`,
+    };
+  }
+  if (conditions.maxCost && stats.cost >= conditions.maxCost) {
+    return { condition: 'cost', reason: `Spent ${formatCost(stats.cost)} of ${formatCost(conditions.maxCost)}` };
+  }
+  return null;
+}
+
+/**
+ * The condition a new public reply meets, if any. `content` is the reply's public part; whispers
+ * between agents don't count towards the keyword. `replies` are the agents' public replies since the conversation started, ending with this one.
+ */
+export function checkReply(
+  conditions: StopConditions,
+  agent: AgentConfig,
+  content: string,
+  replies: Message[]
+): StopTrigger | null {
+  const keyword = conditions.keyword?.trim();
+  if (keyword && content.toLowerCase().includes(keyword.toLowerCase())) {
+    return { condition: 'keyword', reason: `${agent.name} said "${keyword}"`, agentId: agent.id };
+  }
+  if (conditions.repetitionWindow && isRepetitive(replies, conditions.repetitionWindow)) {
+    return {
+      condition: 'repetition',
+      reason: `The last ${conditions.repetitionWindow} replies nearly repeated each other`,
+      agentId: agent.id,
+    };
+  }
+  return null;
+}
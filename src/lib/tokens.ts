@@ -0,0 +1,8 @@
+/**
+ * Rough token count for text when the provider does not report usage.
+ * Uses the common ~4 characters per token heuristic for English text.
+ */
+export function estimateTokenCount(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,306 @@
+import { AgentConfig, Message } from '@/types/agent';
+import { ChatSession } from '@/types/session';
+import { ConversationMode } from './conversationStateManager';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMAT = 'coffeehouse-transcript';
+export const TRANSCRIPT_FORMAT_VERSION = 1;
+
+/**
+ * Agent details included in a transcript. API keys and custom headers are never exported.
+ */
+export interface TranscriptAgent {
+  id: string;
+  name: string;
+  emoji: string;
+  color: string;
+  provider: AgentConfig['provider'];
+  model: string;
+  personality: string;
+  baseUrl?: string;
+  generation?: AgentConfig['generation'];
+  memoryPolicy?: AgentConfig['memoryPolicy'];
+}
+
+export interface TranscriptMessage extends Message {
+  senderName: string;
+  recipientName: string;
+  /** Sent to a single participant rather than the whole group */
+  whisper: boolean;
+  time: string;
+}
+
+export interface TranscriptConversation {
+  mode: ConversationMode;
+  title: string;
+  messages: TranscriptMessage[];
+}
+
+/**
+ * Structured transcript, written as-is by the JSON export
+ */
+export interface Transcript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: {
+    id: string;
+    name: string;
+    createdAt: string;
+    parentId?: string;
+    branchFromMessageId?: string;
+  };
+  agents: TranscriptAgent[];
+  conversations: TranscriptConversation[];
+}
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+};
+
+const FILE_EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+/**
+ * Bubble colors for the HTML export, matching the app's light theme
+ */
+const HTML_COLORS: Record<string, { accent: string; background: string }> = {
+  user: { accent: 'hsl(25 20% 35%)', background: 'hsl(35 20% 92%)' },
+  barista: { accent: 'hsl(25 45% 40%)', background: 'hsl(25 40% 88%)' },
+  philosopher: { accent: 'hsl(215 25% 45%)', background: 'hsl(215 20% 88%)' },
+};
+const DEFAULT_HTML_COLOR = { accent: 'hsl(25 20% 15%)', background: 'hsl(30 15% 90%)' };
+
+function toTranscriptAgent(agent: AgentConfig): TranscriptAgent {
+  return {
+    id: agent.id,
+    name: agent.name,
+    emoji: agent.emoji,
+    color: agent.color,
+    provider: agent.provider,
+    model: agent.model,
+    personality: agent.personality,
+    baseUrl: agent.baseUrl,
+    generation: agent.generation,
+    memoryPolicy: agent.memoryPolicy,
+  };
+}
+
+/**
+ * Collect a session's conversations, with names resolved, for any export format.
+ * The group chat comes first, then private chats in roster order.
+ */
+export function buildTranscript(
+  session: ChatSession,
+  agents: AgentConfig[],
+  states: { [mode: string]: Message[] }
+): Transcript {
+  const nameOf = (id: string) => {
+    if (id === 'user') return 'You';
+    if (id === 'everyone') return 'Everyone';
+    return agents.find((agent) => agent.id === id)?.name || id;
+  };
+  const modeOrder = (mode: string) => (mode === 'group' ? -1 : agents.findIndex((agent) => agent.id === mode));
+
+  const conversations = Object.entries(states)
+    .filter(([, messages]) => messages.length > 0)
+    .sort(([a], [b]) => modeOrder(a) - modeOrder(b))
+    .map(([mode, messages]) => ({
+      mode,
+      title: mode === 'group' ? 'Group chat' : `Private chat with ${nameOf(mode)}`,
+      messages: [...messages]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map((message) => ({
+          ...message,
+          senderName: nameOf(message.sender),
+          recipientName: nameOf(message.recipient),
+          whisper: message.recipient !== 'everyone',
+          time: new Date(message.timestamp).toISOString(),
+        })),
+    }));
+
+  return {
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: {
+      id: session.id,
+      name: session.name,
+      createdAt: new Date(session.createdAt).toISOString(),
+      parentId: session.parentId,
+      branchFromMessageId: session.branchFromMessageId,
+    },
+    agents: agents.map(toTranscriptAgent),
+    conversations,
+  };
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString();
+}
+
+function emojiOf(transcript: Transcript, senderId: string): string {
+  if (senderId === 'user') return '🧍';
+  return transcript.agents.find((agent) => agent.id === senderId)?.emoji || '🤖';
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const lines: string[] = [
+    `# ${transcript.session.name}`,
+    '',
+    `Exported ${formatTime(transcript.exportedAt)} from AI Coffeehouse.`,
+  ];
+  if (transcript.session.parentId) {
+    lines.push('', `_Branched from session ${transcript.session.parentId} at message ${transcript.session.branchFromMessageId}._`);
+  }
+
+  lines.push('', '## Agents', '');
+  transcript.agents.forEach((agent) => {
+    lines.push(`### ${agent.emoji} ${agent.name}`, '', `- Model: ${agent.provider} / ${agent.model}`, '');
+    lines.push(...agent.personality.split('\n').map((line) => `> ${line}`), '');
+  });
+
+  transcript.conversations.forEach((conversation) => {
+    lines.push(`## ${conversation.title}`, '');
+    conversation.messages.forEach((message) => {
+      const whisper = message.whisper ? ` _(whisper to ${message.recipientName})_` : '';
+      const edited = message.editedAt ? ' _(edited)_' : '';
+      lines.push(
+        `**${emojiOf(transcript, message.sender)} ${message.senderName}**${whisper}${edited} · ${formatTime(message.time)}`,
+        '',
+        message.content,
+        ''
+      );
+    });
+  });
+
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A single HTML file with inline styles, so it opens anywhere without the app
+ */
+export function transcriptToHtml(transcript: Transcript): string {
+  const colorOf = (senderId: string) => {
+    const color = senderId === 'user' ? 'user' : transcript.agents.find((agent) => agent.id === senderId)?.color;
+    return HTML_COLORS[color || ''] || DEFAULT_HTML_COLOR;
+  };
+
+  const agentCards = transcript.agents
+    .map((agent) => `
+      <div class="agent" style="border-color: ${colorOf(agent.id).accent}">
+        <div class="agent-name">${escapeHtml(agent.emoji)} ${escapeHtml(agent.name)}</div>
+        <div class="meta">${escapeHtml(agent.provider)} / ${escapeHtml(agent.model)}</div>
+        <p class="personality">${escapeHtml(agent.personality)}</p>
+      </div>`)
+    .join('');
+
+  const conversations = transcript.conversations
+    .map((conversation) => {
+      const messages = conversation.messages
+        .map((message) => {
+          const color = colorOf(message.sender);
+          const classes = ['message', message.sender === 'user' ? 'from-user' : '', message.whisper ? 'whisper' : '']
+            .filter(Boolean)
+            .join(' ');
+          return `
+        <div class="${classes}">
+          <div class="emoji">${escapeHtml(emojiOf(transcript, message.sender))}</div>
+          <div class="body">
+            <div class="sender" style="color: ${color.accent}">
+              ${escapeHtml(message.senderName)}
+              ${message.whisper ? `<span class="tag">🤫 whisper to ${escapeHtml(message.recipientName)}</span>` : ''}
+              ${message.editedAt ? '<span class="tag">edited</span>' : ''}
+              <time datetime="${message.time}">${escapeHtml(formatTime(message.time))}</time>
+            </div>
+            <div class="bubble" style="background: ${color.background}">${escapeHtml(message.content)}</div>
+          </div>
+        </div>`;
+        })
+        .join('');
+      return `
+    <section>
+      <h2>${escapeHtml(conversation.title)}</h2>${messages}
+    </section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(transcript.session.name)} · AI Coffeehouse</title>
+  <style>
+    body { margin: 0; padding: 2rem 1rem; font-family: system-ui, sans-serif; background: hsl(35 30% 96%); color: hsl(25 20% 15%); }
+    main { max-width: 48rem; margin: 0 auto; }
+    h1 { margin-bottom: 0.25rem; }
+    h2 { margin-top: 2rem; border-bottom: 1px solid hsl(30 15% 85%); padding-bottom: 0.25rem; }
+    .meta, time { color: hsl(25 10% 45%); font-size: 0.8rem; font-weight: normal; }
+    .agents { display: grid; grid-template-columns: repeat(auto-fill, minmax(14rem, 1fr)); gap: 0.75rem; }
+    .agent { border: 1px solid; border-left-width: 4px; border-radius: 0.5rem; padding: 0.75rem; background: hsl(35 25% 98%); }
+    .agent-name { font-weight: 600; }
+    .personality { font-size: 0.85rem; white-space: pre-wrap; margin: 0.5rem 0 0; }
+    .message { display: flex; gap: 0.75rem; margin: 1rem 0; align-items: flex-start; }
+    .message.from-user { flex-direction: row-reverse; }
+    .emoji { font-size: 1.5rem; }
+    .body { max-width: 80%; }
+    .sender { font-size: 0.85rem; font-weight: 600; margin-bottom: 0.25rem; display: flex; gap: 0.5rem; align-items: baseline; flex-wrap: wrap; }
+    .bubble { border: 1px solid hsl(30 15% 85%); border-radius: 1rem; padding: 0.75rem 1rem; white-space: pre-wrap; line-height: 1.5; font-size: 0.9rem; }
+    .whisper .bubble { border-style: dashed; font-style: italic; }
+    .tag { font-size: 0.75rem; font-weight: normal; font-style: italic; color: hsl(25 10% 45%); }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>☕ ${escapeHtml(transcript.session.name)}</h1>
+    <div class="meta">Exported ${escapeHtml(formatTime(transcript.exportedAt))}${
+      transcript.session.parentId ? ' · branch of an earlier session' : ''
+    }</div>
+    <h2>Agents</h2>
+    <div class="agents">${agentCards}
+    </div>${conversations}
+  </main>
+</body>
+</html>
+`;
+}
+
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(transcript, null, 2);
+}
+
+const FORMATTERS: Record<TranscriptFormat, (transcript: Transcript) => string> = {
+  markdown: transcriptToMarkdown,
+  html: transcriptToHtml,
+  json: transcriptToJson,
+};
+
+/**
+ * Save a transcript as a file in the browser
+ */
+export function downloadTranscript(transcript: Transcript, format: TranscriptFormat): void {
+  const blob = new Blob([FORMATTERS[format](transcript)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const slug = transcript.session.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'transcript';
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `coffeehouse-${slug}-${Date.now()}.${FILE_EXTENSIONS[format]}`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
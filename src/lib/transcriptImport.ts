@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { AgentConfig, KEYLESS_PROVIDERS, Message } from '@/types/agent';
+import { ConversationMode } from './conversationStateManager';
+import { agentConfigSchema, describeIssues, messageSchema } from './persistedState';
+import { TRANSCRIPT_FORMAT, TRANSCRIPT_FORMAT_VERSION } from './transcriptExport';
+
+// Transcripts are read into memory whole; anything larger is almost certainly the wrong file
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024;
+
+const DEFAULT_IMPORTED_PERSONALITY =
+  'You are a participant in a group conversation that was started elsewhere. Continue it naturally and concisely.';
+
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+/**
+ * A validated transcript, ready to become a new session
+ */
+export interface ImportedTranscript {
+  name: string;
+  agents: AgentConfig[];
+  states: { [mode: string]: Message[] };
+  /** Things that were adjusted or skipped along the way */
+  warnings: string[];
+}
+
+const transcriptSchema = z.object({
+  format: z.literal(TRANSCRIPT_FORMAT),
+  version: z.number(),
+  session: z.object({ name: z.string() }).partial().optional(),
+  agents: z.array(agentConfigSchema).min(1),
+  conversations: z.array(z.object({
+    mode: z.string().min(1),
+    messages: z.array(messageSchema),
+  })),
+});
+
+const openAIContentPartSchema = z.object({ type: z.string(), text: z.string().optional() });
+
+const openAIMessageSchema = z.object({
+  role: z.enum(['system', 'developer', 'user', 'assistant', 'tool', 'function']),
+  content: z.union([z.string(), z.array(openAIContentPartSchema), z.null()]).optional(),
+  name: z.string().optional(),
+});
+
+// Either a bare messages array or a chat completions request body
+const openAIChatSchema = z.union([
+  z.array(openAIMessageSchema),
+  z.object({ model: z.string().optional(), messages: z.array(openAIMessageSchema) }),
+]);
+
+interface ParsedTranscript {
+  session?: { name?: string };
+  agents: AgentConfig[];
+  conversations: Array<{ mode: string; messages: Message[] }>;
+}
+
+interface OpenAIMessage {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool' | 'function';
+  content?: string | Array<{ type: string; text?: string }> | null;
+  name?: string;
+}
+
+function generateAgentId(taken: Set<string>, base: string): string {
+  let index = 1;
+  let id = `${base}-imported`;
+  while (taken.has(id)) {
+    index++;
+    id = `${base}-imported-${index}`;
+  }
+  return id;
+}
+
+/**
+ * Imported agents have no API key; borrow one from an existing agent on the same endpoint
+ */
+function withBorrowedKey(agent: AgentConfig, existingAgents: AgentConfig[]): AgentConfig {
+  if (agent.apiKey) return agent;
+  const donor = existingAgents.find(
+    (existing) => existing.provider === agent.provider && existing.baseUrl === agent.baseUrl && existing.apiKey
+  );
+  return donor ? { ...agent, apiKey: donor.apiKey } : agent;
+}
+
+/**
+ * Give imported agents IDs that don't collide with the existing ones, and rewrite
+ * message senders, recipients and private chat modes to match
+ */
+function remapAgentIds(
+  transcript: ParsedTranscript,
+  existingAgents: AgentConfig[],
+  warnings: string[]
+): { agents: AgentConfig[]; states: { [mode: string]: Message[] } } {
+  const taken = new Set(existingAgents.map((agent) => agent.id));
+  const idMap = new Map<string, string>();
+
+  const agents = transcript.agents.map((agent) => {
+    const id = taken.has(agent.id) ? generateAgentId(taken, agent.id) : agent.id;
+    if (id !== agent.id) {
+      warnings.push(`Agent "${agent.name}" was given the ID ${id} because ${agent.id} is already in use.`);
+    }
+    taken.add(id);
+    idMap.set(agent.id, id);
+    return withBorrowedKey({ ...agent, id }, existingAgents);
+  });
+
+  const mapParticipant = (id: string) => (id === 'user' || id === 'everyone' ? id : idMap.get(id));
+  const states: { [mode: string]: Message[] } = { group: [] };
+
+  transcript.conversations.forEach((conversation) => {
+    const mode: ConversationMode | undefined = conversation.mode === 'group' ? 'group' : idMap.get(conversation.mode);
+    if (!mode) {
+      warnings.push(`Skipped a private chat with unknown agent ${conversation.mode}.`);
+      return;
+    }
+    const messages = conversation.messages.flatMap((message) => {
+      const sender = mapParticipant(message.sender);
+      const recipient = mapParticipant(message.recipient);
+      if (!sender || !recipient) {
+        warnings.push(`Skipped message ${message.id} from or to an unknown agent.`);
+        return [];
+      }
+      const mentions = message.mentions?.map((id) => idMap.get(id)).filter((id): id is string => !!id);
+      return [{ ...message, sender, recipient, mentions }];
+    });
+    states[mode] = [...(states[mode] || []), ...messages].sort((a, b) => a.timestamp - b.timestamp);
+  });
+
+  return { agents, states };
+}
+
+function textOf(content: OpenAIMessage['content']): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  return content.filter((part) => part.type === 'text' && part.text).map((part) => part.text).join('\n');
+}
+
+/**
+ * Turn an OpenAI-style messages array into a group transcript. Each distinct assistant `name`
+ * becomes an agent, so multi-speaker logs keep their attribution.
+ */
+function fromOpenAIMessages(messages: OpenAIMessage[], model: string | undefined, warnings: string[]): ParsedTranscript {
+  const systemPrompt = messages
+    .filter((message) => message.role === 'system' || message.role === 'developer')
+    .map((message) => textOf(message.content))
+    .join('\n\n')
+    .trim();
+
+  const agentsByName = new Map<string, AgentConfig>();
+  const agentFor = (name = 'Assistant') => {
+    let agent = agentsByName.get(name);
+    if (!agent) {
+      const slug = `openai-${name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'assistant'}`;
+      const used = new Set(Array.from(agentsByName.values()).map((existing) => existing.id));
+      agent = {
+        id: used.has(slug) ? generateAgentId(used, slug) : slug,
+        name,
+        personality: systemPrompt || DEFAULT_IMPORTED_PERSONALITY,
+        provider: 'openai',
+        model: model || 'gpt-4o-mini',
+        apiKey: '',
+        color: 'primary',
+        emoji: '🤖',
+      };
+      agentsByName.set(name, agent);
+    }
+    return agent;
+  };
+
+  const chat = messages.filter((message) => message.role === 'user' || message.role === 'assistant');
+  const skipped = messages.filter((message) => message.role === 'tool' || message.role === 'function').length;
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} tool or function message(s).`);
+  }
+
+  // The source has no timestamps; space messages a second apart, ending now
+  const start = Date.now() - chat.length * 1000;
+  const converted: Message[] = chat.map((message, index) => ({
+    id: `imported-${start}-${index}`,
+    sender: message.role === 'user' ? 'user' : agentFor(message.name).id,
+    recipient: 'everyone',
+    content: textOf(message.content),
+    timestamp: start + index * 1000,
+  }));
+
+  if (agentsByName.size === 0) {
+    // A conversation with no replies yet still needs someone to continue it
+    agentFor();
+  }
+
+  return {
+    agents: Array.from(agentsByName.values()),
+    conversations: [{ mode: 'group', messages: converted }],
+  };
+}
+
+/**
+ * Parse and validate an imported file: a coffeehouse JSON transcript, or an OpenAI-style
+ * messages array. Throws TranscriptImportError with a readable reason when it can't be used.
+ */
+export function parseTranscriptFile(text: string, fileName: string, existingAgents: AgentConfig[]): ImportedTranscript {
+  if (text.length > MAX_IMPORT_BYTES) {
+    throw new TranscriptImportError('The file is too large to import.');
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new TranscriptImportError('The file is not valid JSON. Only JSON transcripts can be imported.');
+  }
+
+  const warnings: string[] = [];
+  let parsed: ParsedTranscript;
+
+  if (typeof raw === 'object' && raw !== null && (raw as { format?: unknown }).format === TRANSCRIPT_FORMAT) {
+    const result = transcriptSchema.safeParse(raw);
+    if (!result.success) {
+      throw new TranscriptImportError(`The transcript is invalid: ${describeIssues(result.error)}`);
+    }
+    parsed = result.data as ParsedTranscript;
+    if ((result.data as { version: number }).version > TRANSCRIPT_FORMAT_VERSION) {
+      throw new TranscriptImportError('The transcript was exported by a newer version of the app.');
+    }
+  } else {
+    const result = openAIChatSchema.safeParse(raw);
+    if (!result.success) {
+      throw new TranscriptImportError(
+        'Unrecognized file. Import a transcript exported as JSON, or an OpenAI-style messages array.'
+      );
+    }
+    const data = result.data as OpenAIMessage[] | { model?: string; messages: OpenAIMessage[] };
+    parsed = Array.isArray(data)
+      ? fromOpenAIMessages(data, undefined, warnings)
+      : fromOpenAIMessages(data.messages, data.model, warnings);
+  }
+
+  const { agents, states } = remapAgentIds(parsed, existingAgents, warnings);
+  if (agents.some((agent) => !agent.apiKey && !KEYLESS_PROVIDERS.includes(agent.provider))) {
+    warnings.push('Some imported agents have no API key yet; add one in Settings before they reply.');
+  }
+
+  return {
+    name: parsed.session?.name?.trim() || fileName.replace(/\.json$/i, '') || 'Imported chat',
+    agents,
+    states,
+    warnings,
+  };
+}
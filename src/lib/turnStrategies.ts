@@ -0,0 +1,196 @@
+import { AgentConfig, Message } from '@/types/agent';
+import { TurnStrategyId, TurnStrategySettings } from '@/types/session';
+
+export const DEFAULT_TURN_STRATEGY: TurnStrategySettings = { strategy: 'round-robin' };
+
+/**
+ * What a strategy knows when choosing the next speaker of an auto conversation round
+ */
+export interface TurnContext {
+  /** Agents able to speak this round, in roster order */
+  agents: AgentConfig[];
+  /** Group chat so far, oldest first, including replies earlier in this round */
+  history: Message[];
+  /** Agents that already took a turn this round, in order */
+  spokenThisRound: string[];
+  settings: TurnStrategySettings;
+  /** Source of randomness, replaceable for predictable picks */
+  random?: () => number;
+}
+
+export interface TurnPick {
+  agent: AgentConfig;
+  /** Why this agent was chosen, for the debug log */
+  reason: string;
+}
+
+export interface TurnStrategy {
+  id: TurnStrategyId;
+  label: string;
+  description: string;
+  /** Next speaker, or null to end the round early */
+  pickNext(context: TurnContext): TurnPick | null;
+}
+
+export function getTurnWeight(settings: TurnStrategySettings, agentId: string): number {
+  return settings.weights?.[agentId] ?? 1;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The agent a message speaks to: the recipient of a whisper, its first structured mention,
+ * or else the first agent named in the text ("Barista, what do you think?"), leaving out its own sender
+ */
+export function findAddressedAgent(message: Message, agents: AgentConfig[]): AgentConfig | null {
+  const whisperedTo = agents.find((agent) => agent.id === message.recipient && agent.id !== message.sender);
+  if (whisperedTo) return whisperedTo;
+
+  const mentioned = message.mentions
+    ?.map((id) => agents.find((agent) => agent.id === id && agent.id !== message.sender))
+    .find(Boolean);
+  if (mentioned) return mentioned;
+
+  let addressed: AgentConfig | null = null;
+  let firstIndex = Infinity;
+  agents.forEach((agent) => {
+    if (agent.id === message.sender || !agent.name.trim()) return;
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])@?${escapeRegExp(agent.name.trim())}(?![\\p{L}\\p{N}])`, 'iu');
+    const match = pattern.exec(message.content);
+    if (match && match.index < firstIndex) {
+      firstIndex = match.index;
+      addressed = agent;
+    }
+  });
+  return addressed;
+}
+
+function lastAgentSpeaker(history: Message[], agents: AgentConfig[]): AgentConfig | undefined {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const agent = agents.find((candidate) => candidate.id === history[i].sender);
+    if (agent) return agent;
+  }
+  return undefined;
+}
+
+/**
+ * Agents a strategy may pick: not those that already spoke this round unless repeats are allowed,
+ * and not the one who spoke last, so nobody answers themselves while someone else could speak
+ */
+function candidatesFor(context: TurnContext): AgentConfig[] {
+  const { agents, history, spokenThisRound, settings } = context;
+  const candidates = settings.allowRepeats
+    ? agents
+    : agents.filter((agent) => !spokenThisRound.includes(agent.id));
+  const lastSender = history[history.length - 1]?.sender;
+  const others = candidates.filter((agent) => agent.id !== lastSender);
+  return others.length > 0 ? others : candidates;
+}
+
+function pickLeastRecent(context: TurnContext, candidates: AgentConfig[]): TurnPick | null {
+  if (candidates.length === 0) return null;
+  const lastSpoke = (agent: AgentConfig) => {
+    for (let i = context.history.length - 1; i >= 0; i--) {
+      if (context.history[i].sender === agent.id) return i;
+    }
+    return -1;
+  };
+  // Ties keep roster order
+  const agent = candidates.reduce((best, candidate) => (lastSpoke(candidate) < lastSpoke(best) ? candidate : best));
+  const index = lastSpoke(agent);
+  return {
+    agent,
+    reason: index === -1
+      ? `${agent.name} hasn't spoken yet`
+      : `${agent.name} spoke least recently, ${context.history.length - 1 - index} message(s) ago`,
+  };
+}
+
+const roundRobin: TurnStrategy = {
+  id: 'round-robin',
+  label: 'Round-robin',
+  description: 'Agents take turns in roster order.',
+  pickNext: (context) => {
+    const { agents, history } = context;
+    // With repeats allowed the order keeps cycling past the end of the roster instead of ending the round
+    const remaining = candidatesFor(context);
+    if (remaining.length === 0) return null;
+    const previous = lastAgentSpeaker(history, agents);
+    const start = previous ? agents.indexOf(previous) + 1 : 0;
+    const agent = [...agents.slice(start), ...agents.slice(0, start)].find((candidate) => remaining.includes(candidate));
+    return {
+      agent,
+      reason: previous ? `Next in roster order after ${previous.name}` : `${agent.name} is first in roster order`,
+    };
+  },
+};
+
+const randomOrder: TurnStrategy = {
+  id: 'random',
+  label: 'Random',
+  description: 'Any agent may speak next, chosen at random.',
+  pickNext: (context) => {
+    const candidates = candidatesFor(context);
+    if (candidates.length === 0) return null;
+    const random = context.random ?? Math.random;
+    const agent = candidates[Math.floor(random() * candidates.length)];
+    return { agent, reason: `Picked at random from ${candidates.length} candidate(s)` };
+  },
+};
+
+const leastRecent: TurnStrategy = {
+  id: 'least-recent',
+  label: 'Least recently spoke',
+  description: 'Whoever has been quiet the longest speaks next.',
+  pickNext: (context) => pickLeastRecent(context, candidatesFor(context)),
+};
+
+const weighted: TurnStrategy = {
+  id: 'weighted',
+  label: 'Weighted talkativeness',
+  description: 'Talkative agents speak more often; a weight of 0 keeps an agent quiet.',
+  pickNext: (context) => {
+    const candidates = candidatesFor(context).filter((agent) => getTurnWeight(context.settings, agent.id) > 0);
+    if (candidates.length === 0) return null;
+    const total = candidates.reduce((sum, agent) => sum + getTurnWeight(context.settings, agent.id), 0);
+    let roll = (context.random ?? Math.random)() * total;
+    const agent = candidates.find((candidate) => {
+      roll -= getTurnWeight(context.settings, candidate.id);
+      return roll < 0;
+    }) ?? candidates[candidates.length - 1];
+    return {
+      agent,
+      reason: `Weighted pick: ${agent.name} has weight ${getTurnWeight(context.settings, agent.id)} of ${total}`,
+    };
+  },
+};
+
+const addressed: TurnStrategy = {
+  id: 'addressed',
+  label: 'Addressed agent speaks next',
+  description: 'An agent named in the last message answers it; otherwise the quietest agent speaks.',
+  pickNext: (context) => {
+    const candidates = candidatesFor(context);
+    const lastMessage = context.history[context.history.length - 1];
+    const agent = lastMessage ? findAddressedAgent(lastMessage, candidates) : null;
+    if (agent) {
+      const speaker = lastMessage.sender === 'user'
+        ? 'You'
+        : context.agents.find((candidate) => candidate.id === lastMessage.sender)?.name || lastMessage.sender;
+      const how = lastMessage.recipient === agent.id ? 'whispered to' : 'addressed';
+      return { agent, reason: `${speaker} ${how} ${agent.name}` };
+    }
+    const fallback = pickLeastRecent(context, candidates);
+    return fallback && { ...fallback, reason: `Nobody was addressed; ${fallback.reason}` };
+  },
+};
+
+export const TURN_STRATEGIES: Record<TurnStrategyId, TurnStrategy> = {
+  'round-robin': roundRobin,
+  random: randomOrder,
+  'least-recent': leastRecent,
+  weighted,
+  addressed,
+};
@@ -0,0 +1,55 @@
+import { AgentConfig, Message } from '@/types/agent';
+
+const WHISPER_LINE = /^\s*\/whisper\b/i;
+
+/**
+ * Added to an agent's system prompt during auto conversation when agents may whisper
+ */
+export function getWhisperInstructions(others: AgentConfig[]): string {
+  return (
+    'You may say something privately to one other participant by putting it on its own line as ' +
+    '"/whisper @Name message". Only that participant will see it; everything else you write is public. ' +
+    `You can whisper to: ${others.map((agent) => agent.name).join(', ')}. Whisper rarely, only when it matters.`
+  );
+}
+
+/**
+ * A message one agent sent privately to another in the group chat
+ */
+export function isAgentWhisper(message: Message): boolean {
+  return message.sender !== 'user' && message.recipient !== 'everyone' && message.recipient !== 'user';
+}
+
+/**
+ * Split an agent's reply into its public part and any "/whisper @Name message" lines.
+ * Lines naming someone who can't be whispered to stay in the public part unchanged.
+ */
+export function parseWhisperDirectives(
+  reply: string,
+  recipients: AgentConfig[]
+): { publicContent: string; whispers: Array<{ recipient: AgentConfig; content: string }> } {
+  const byLength = [...recipients].sort((a, b) => b.name.length - a.name.length);
+  const whispers: Array<{ recipient: AgentConfig; content: string }> = [];
+
+  const publicLines = reply.split('\n').filter((line) => {
+    if (!WHISPER_LINE.test(line)) return true;
+    const rest = line.replace(WHISPER_LINE, '').trim().replace(/^@/, '');
+    const recipient = byLength.find((agent) => rest.toLowerCase().startsWith(agent.name.toLowerCase()));
+    const content = recipient ? rest.slice(recipient.name.length).replace(/^[\s:,-]+/, '').trim() : '';
+    if (!recipient || !content) return true;
+    whispers.push({ recipient, content });
+    return false;
+  });
+
+  return { publicContent: publicLines.join('\n').trim(), whispers };
+}
+
+/**
+ * Hide whisper lines from a reply that is still streaming in
+ */
+export function stripWhisperLines(text: string): string {
+  return text
+    .split('\n')
+    .filter((line) => !WHISPER_LINE.test(line))
+    .join('\n');
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from "react";
 import OnboardingScreen from "@/components/OnboardingScreen";
-import ChatInterface from "@/components/ChatInterface";
+import SessionWorkspace from "@/components/SessionWorkspace";
 import { AgentConfig } from "@/types/agent";
+import { loadPersistedAgents } from "@/lib/persistedState";
 
 const Index = () => {
   const [showOnboarding, setShowOnboarding] = useState(true);
@@ -9,10 +10,11 @@ const Index = () => {
 
   useEffect(() => {
     const onboarded = localStorage.getItem("coffeehouse-onboarded");
-    const storedAgents = localStorage.getItem("coffeehouse-agents");
+    // Null when missing or unusable, in which case onboarding runs again
+    const storedAgents = onboarded === "true" ? loadPersistedAgents() : null;
     
-    if (onboarded === "true" && storedAgents) {
-      setAgents(JSON.parse(storedAgents));
+    if (storedAgents) {
+      setAgents(storedAgents);
       setShowOnboarding(false);
     }
   }, []);
@@ -26,7 +28,7 @@ const Index = () => {
     return <OnboardingScreen onComplete={handleOnboardingComplete} />;
   }
 
-  return <ChatInterface />;
+  return <SessionWorkspace agents={agents} />;
 };
 
 export default Index;
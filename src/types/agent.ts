@@ -1,15 +1,50 @@
-export type ApiProvider = 'openai' | 'anthropic' | 'google' | 'xai' | 'ollama' | 'huggingface';
+export type ApiProvider = 'openai' | 'anthropic' | 'google' | 'xai' | 'ollama' | 'huggingface' | 'openai-compatible';
 
-export type OpenAIModel = 'gpt-4o' | 'gpt-4o-mini' | 'gpt-4-turbo' | 'gpt-3.5-turbo';
-export type AnthropicModel = 'claude-3-5-sonnet-20241022' | 'claude-3-5-haiku-20241022' | 'claude-3-opus-20240229';
-export type GoogleModel = 'gemini-2.0-flash-exp' | 'gemini-1.5-pro' | 'gemini-1.5-flash';
-export type XAIModel = 'grok-beta' | 'grok-vision-beta';
+export type OpenAIModel = 'gpt-4.1' | 'gpt-4.1-mini' | 'gpt-4o' | 'gpt-4o-mini';
+export type AnthropicModel = 'claude-sonnet-4-20250514' | 'claude-3-7-sonnet-20250219' | 'claude-3-5-haiku-20241022';
+export type GoogleModel = 'gemini-2.5-pro' | 'gemini-2.5-flash' | 'gemini-2.0-flash';
+export type XAIModel = 'grok-3' | 'grok-3-mini';
 
 export type OllamaModel = 'llama3' | 'llama3.1' | 'llama3.2' | 'mistral' | 'phi3' | 'qwen2.5';
 
 export type HuggingFaceModel = 'TinyLlama/TinyLlama-1.1B-Chat-v1.0' | 'Qwen/Qwen2.5-0.5B-Instruct' | 'meta-llama/Llama-3.2-1B-Instruct';
 
-export type ModelType = OpenAIModel | AnthropicModel | GoogleModel | XAIModel | OllamaModel | HuggingFaceModel;
+export type KnownModel = OpenAIModel | AnthropicModel | GoogleModel | XAIModel | OllamaModel | HuggingFaceModel;
+
+/** Any known model, or a free-text model ID for custom endpoints (keeps editor autocomplete for known names) */
+export type ModelType = KnownModel | (string & Record<never, never>);
+
+/**
+ * Sampling and length controls sent with every request.
+ * Unset fields fall back to DEFAULT_GENERATION_SETTINGS or the provider's own default.
+ */
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  stopSequences?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  seed?: number;
+}
+
+export type GenerationSetting = keyof GenerationSettings;
+
+/**
+ * Which conversations an agent remembers when it replies. The conversation being answered is always included.
+ * - shared: its private chat and the group chat, in both
+ * - private-only: private replies remember only the private chat; group replies still see both
+ * - group-only: group replies remember only the group chat, so the private chat stays out of it
+ * - isolated: both of the above; the group and private chats never mix
+ * - windowed: like shared, but only the last `groupWindow` group messages
+ */
+export type MemoryVisibility = 'shared' | 'private-only' | 'group-only' | 'isolated' | 'windowed';
+
+export interface MemoryPolicy {
+  visibility: MemoryVisibility;
+  /** Group messages remembered under the windowed policy */
+  groupWindow?: number;
+}
 
 export interface AgentConfig {
   id: string;
@@ -20,8 +55,22 @@ export interface AgentConfig {
   apiKey: string;
   color: string;
   emoji: string;
-  /** Optional base URL for providers that support custom endpoints (e.g., Ollama) */
+  /** Optional base URL for providers that support custom endpoints (e.g., Ollama, OpenAI-compatible) */
   baseUrl?: string;
+  /** Extra request headers for OpenAI-compatible endpoints (e.g., Azure `api-key`, OpenRouter `HTTP-Referer`) */
+  customHeaders?: Record<string, string>;
+  /** Optional per-agent generation parameters */
+  generation?: GenerationSettings;
+  /** Optional spending cap in USD; the agent stops replying once its estimated cost reaches it */
+  budgetLimit?: number;
+  /** Which conversations the agent remembers; shared when unset */
+  memoryPolicy?: MemoryPolicy;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface Message {
@@ -30,8 +79,28 @@ export interface Message {
   recipient: 'everyone' | string; // 'everyone' or agent id
   content: string;
   timestamp: number;
+  /** Every generated version of a regenerated reply; `content` holds the one currently shown */
+  versions?: string[];
+  /** Index into `versions` of the version shown */
+  activeVersion?: number;
+  /** Set when the user edited their message after sending it */
+  editedAt?: number;
+  /** IDs of the agents addressed as "@Name" in a group message; only they reply */
+  mentions?: string[];
+  /** User message a group reply answers; set on replies generated in parallel, which never saw each other */
+  inReplyTo?: string;
+  /**
+   * Set on replies given during auto conversation. Their prompt carried that turn's rules
+   * (whispers, end signal, moderator's note), so they can't be regenerated faithfully.
+   */
+  autoTurn?: boolean;
 }
 
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.9,
+  maxOutputTokens: 150,
+};
+
 export const DEFAULT_AGENTS: Omit<AgentConfig, 'apiKey'>[] = [
   {
     id: 'agent1',
@@ -41,6 +110,10 @@ export const DEFAULT_AGENTS: Omit<AgentConfig, 'apiKey'>[] = [
     model: 'gpt-4o-mini',
     color: 'barista',
     emoji: '☕',
+    generation: {
+      temperature: 0.9,
+      maxOutputTokens: 120,
+    },
   },
   {
     id: 'agent2',
@@ -50,16 +123,26 @@ export const DEFAULT_AGENTS: Omit<AgentConfig, 'apiKey'>[] = [
     model: 'claude-3-5-haiku-20241022',
     color: 'philosopher',
     emoji: '📚',
+    generation: {
+      temperature: 0.7,
+      maxOutputTokens: 400,
+    },
   },
 ];
 
+/**
+ * Fallback model lists, used until model discovery (src/lib/modelDiscovery.ts)
+ * has fetched the provider's live list, or when it can't be reached
+ */
 export const PROVIDER_MODELS: Record<ApiProvider, ModelType[]> = {
-  openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-  anthropic: ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229'],
-  google: ['gemini-2.0-flash-exp', 'gemini-1.5-pro', 'gemini-1.5-flash'],
-  xai: ['grok-beta', 'grok-vision-beta'],
+  openai: ['gpt-4.1', 'gpt-4.1-mini', 'gpt-4o', 'gpt-4o-mini'],
+  anthropic: ['claude-sonnet-4-20250514', 'claude-3-7-sonnet-20250219', 'claude-3-5-haiku-20241022'],
+  google: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'],
+  xai: ['grok-3', 'grok-3-mini'],
   ollama: ['llama3', 'llama3.1', 'llama3.2', 'mistral', 'phi3', 'qwen2.5'],
   huggingface: ['TinyLlama/TinyLlama-1.1B-Chat-v1.0', 'Qwen/Qwen2.5-0.5B-Instruct', 'meta-llama/Llama-3.2-1B-Instruct'],
+  // Model IDs are free text for custom endpoints
+  'openai-compatible': [],
 };
 
 export const PROVIDER_LABELS: Record<ApiProvider, string> = {
@@ -69,4 +152,31 @@ export const PROVIDER_LABELS: Record<ApiProvider, string> = {
   xai: 'xAI (Grok)',
   ollama: 'Ollama (local)',
   huggingface: 'HuggingFace',
+  'openai-compatible': 'OpenAI-compatible (custom URL)',
+};
+
+export const DEFAULT_MEMORY_POLICY: MemoryPolicy = { visibility: 'shared' };
+
+export const DEFAULT_GROUP_WINDOW = 10;
+
+export const MEMORY_VISIBILITY_LABELS: Record<MemoryVisibility, string> = {
+  shared: 'Shared (private and group chats)',
+  'private-only': 'Private replies ignore the group chat',
+  'group-only': 'Group replies ignore the private chat',
+  isolated: 'Keep chats separate (both)',
+  windowed: 'Recent group messages only',
+};
+
+/** Providers that can run without an API key */
+export const KEYLESS_PROVIDERS: ApiProvider[] = ['ollama', 'openai-compatible'];
+
+/** Generation settings each provider's API has no equivalent for */
+export const PROVIDER_UNSUPPORTED_SETTINGS: Record<ApiProvider, GenerationSetting[]> = {
+  openai: [],
+  anthropic: ['presencePenalty', 'frequencyPenalty', 'seed'],
+  google: [],
+  xai: [],
+  ollama: [],
+  huggingface: [],
+  'openai-compatible': [],
 };
@@ -1,10 +1,13 @@
 // Debug event types for the debug panel
 
+import { TokenUsage } from './agent';
+
 export type DebugEventType =
   | 'message_added'
   | 'api_request_start'
   | 'api_request_success'
   | 'api_request_error'
+  | 'api_request_retry'
   | 'orchestrator_decision'
   | 'memory_operation'
   | 'system_event';
@@ -32,6 +35,7 @@ export interface ApiRequestStartEvent {
   provider: string;
   model: string;
   messageCount: number;
+  streaming?: boolean;
 }
 
 export interface ApiRequestSuccessEvent {
@@ -39,11 +43,10 @@ export interface ApiRequestSuccessEvent {
   agentId: string;
   agentName: string;
   responseTime: number;
-  tokenUsage?: {
-    promptTokens?: number;
-    completionTokens?: number;
-    totalTokens?: number;
-  };
+  tokenUsage?: TokenUsage;
+  estimatedCost?: number;
+  /** Number of retries needed before the request succeeded */
+  retries?: number;
 }
 
 export interface ApiRequestErrorEvent {
@@ -52,6 +55,18 @@ export interface ApiRequestErrorEvent {
   agentName: string;
   error: string;
   responseTime: number;
+  cancelled?: boolean;
+}
+
+export interface ApiRequestRetryEvent {
+  requestId: string;
+  agentId: string;
+  agentName: string;
+  attempt: number;
+  maxRetries: number;
+  delayMs: number;
+  error: string;
+  statusCode?: number;
 }
 
 export interface OrchestratorDecisionEvent {
@@ -62,7 +77,7 @@ export interface OrchestratorDecisionEvent {
 }
 
 export interface MemoryOperationEvent {
-  operation: 'add' | 'clear' | 'switch_mode' | 'export' | 'import';
+  operation: 'add' | 'clear' | 'switch_mode' | 'export' | 'import' | 'summarize' | 'truncate' | 'fork' | 'replace' | 'remove' | 'policy';
   mode?: 'group' | 'private';
   details?: string;
 }
@@ -79,11 +94,8 @@ export interface AgentStatus {
   model: string;
   provider: string;
   lastResponseTime?: number;
-  tokenUsage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  /** Cumulative usage across every successful request for this agent */
+  tokenUsage?: TokenUsage;
   apiCallStatus: 'idle' | 'pending' | 'success' | 'error';
   lastError?: string;
 }
@@ -0,0 +1,73 @@
+import { AgentConfig } from './agent';
+
+/**
+ * A named chat. Each session keeps its own agent roster, auto-conversation counters and,
+ * in the conversation store, its own transcripts.
+ */
+export interface ChatSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  /** Last time a message was added or the session was edited; orders the sidebar */
+  updatedAt: number;
+  archived: boolean;
+  agents: AgentConfig[];
+  autoRoundLimit: number | null;
+  autoRoundCount: number;
+  /** Session this one was branched from; unset for sessions started from scratch */
+  parentId?: string;
+  /** Last message copied from the parent; the branch continues after it */
+  branchFromMessageId?: string;
+  /** How auto conversation picks the next speaker; round-robin when unset */
+  turnStrategy?: TurnStrategySettings;
+  /** Let agents whisper to each other during auto conversation */
+  agentWhispers?: boolean;
+  /** Show the user the agents' whispers to each other; hidden when unset */
+  observeWhispers?: boolean;
+  /** Conditions besides the round limit that end auto conversation; none apply when unset */
+  stopConditions?: StopConditions;
+}
+
+export type TurnStrategyId = 'round-robin' | 'random' | 'least-recent' | 'weighted' | 'addressed';
+
+export interface TurnStrategySettings {
+  strategy: TurnStrategyId;
+  /** Let an agent speak more than once per round, which may leave others out of it */
+  allowRepeats?: boolean;
+  /** Relative talkativeness for the weighted strategy, by agent ID; 1 when unset, 0 never speaks */
+  weights?: Record<string, number>;
+  /**
+   * Agent that chooses each speaker instead of the strategy, and may steer or end the conversation.
+   * It doesn't speak itself; the strategy takes over whenever its answer can't be used.
+   */
+  moderatorId?: string;
+}
+
+export type StopConditionId = 'keyword' | 'end_signal' | 'repetition' | 'duration' | 'tokens' | 'cost';
+
+/**
+ * Ways an auto conversation can end before its round limit. Unset or zero fields don't apply.
+ */
+export interface StopConditions {
+  /** Phrase that ends the conversation when a reply contains it, ignoring case */
+  keyword?: string;
+  /** Let agents end the conversation with an "/end" line */
+  endSignal?: boolean;
+  /** Stop when each of the last this-many replies nearly repeats another of them; needs at least 2 */
+  repetitionWindow?: number;
+  /** Wall-clock minutes the conversation may run */
+  maxMinutes?: number;
+  /** Tokens the conversation may use, counting replies, the moderator and context summaries */
+  maxTokens?: number;
+  /** Estimated USD the conversation may spend */
+  maxCost?: number;
+}
+
+/**
+ * Request to open a conversation at a specific message, e.g. from a search result
+ */
+export interface MessageFocusRequest {
+  sessionId: string;
+  mode: string;
+  messageId: string;
+}